@@ -0,0 +1,400 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { ArrowLeft, Send, X } from 'lucide-react';
+import { useApi } from '@/utils/api';
+import { useAlertsApi } from '@/utils/alertsApi';
+import { useAuth } from '@/context/authContext';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDraft, AudienceEntity, AudienceKind, AudienceUser, AUDIENCE_ROLES, EMPTY_DRAFT, TITLE_MAX,
+  canComposeAlerts, toCreateRequest, validateDraft,
+} from '@/utils/alertComposer';
+import { SEVERITIES } from '@/utils/alertNotificationPrefs';
+import AlertDetailView, { cardSurface } from '../../components/AlertDetailView';
+
+const card = 'rounded-md border bg-white p-4 space-y-4';
+const input = 'w-full rounded-md border px-3 py-2 text-sm';
+const label = 'block text-sm font-medium';
+
+const AUDIENCES: AudienceKind[] = ['roles', 'users', 'entity'];
+
+const SEVERITY_TONE: Record<string, string> = {
+  info: 'border-sky-300 bg-sky-50 text-sky-800',
+  warning: 'border-amber-300 bg-amber-50 text-amber-800',
+  critical: 'border-red-300 bg-red-50 text-red-800',
+};
+
+/** Typeahead over GET /alerts/audience/users */
+function UserPicker({
+  selected,
+  onChange,
+}: {
+  selected: AudienceUser[];
+  onChange: (users: AudienceUser[]) => void;
+}) {
+  const { t } = useTranslation('common');
+  const api = useApi();
+  const [q, setQ] = React.useState('');
+  const [results, setResults] = React.useState<AudienceUser[]>([]);
+  const [searching, setSearching] = React.useState(false);
+
+  React.useEffect(() => {
+    const term = q.trim();
+    if (term.length < 2) { setResults([]); return; }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setSearching(true);
+      try {
+        const res = await api.get<AudienceUser[]>('/alerts/audience/users', { params: { q: term, max: 10 } });
+        if (!cancelled) setResults(Array.isArray(res.data) ? res.data : []);
+      } catch {
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [q, api]);
+
+  const chosen = new Set(selected.map((u) => u.userId));
+  const add = (u: AudienceUser) => {
+    if (!chosen.has(u.userId)) onChange([...selected, u]);
+    setQ('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((u) => (
+            <span key={u.userId} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs">
+              {u.name}
+              <button
+                type="button"
+                onClick={() => onChange(selected.filter((s) => s.userId !== u.userId))}
+                aria-label={t('alertCompose.audience.removeUser', { name: u.name })}
+                className="text-gray-500 hover:text-gray-900"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        type="search"
+        className={input}
+        value={q}
+        onChange={(e) => setQ(e.target.value)}
+        placeholder={t('alertCompose.audience.searchUsers')}
+      />
+      {q.trim().length >= 2 && (
+        <ul className="max-h-48 overflow-auto rounded-md border text-sm">
+          {searching && results.length === 0 ? (
+            <li className="px-3 py-2 text-gray-500">{t('loading')}</li>
+          ) : results.length === 0 ? (
+            <li className="px-3 py-2 text-gray-500">{t('alertCompose.audience.noUsers')}</li>
+          ) : (
+            results.map((u) => (
+              <li key={u.userId}>
+                <button
+                  type="button"
+                  disabled={chosen.has(u.userId)}
+                  onClick={() => add(u)}
+                  className="flex w-full items-center justify-between px-3 py-2 text-left hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <span>{u.name}</span>
+                  {u.email && <span className="text-xs text-gray-500">{u.email}</span>}
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function AlertComposePage() {
+  const { t } = useTranslation('common');
+  const api = useApi();
+  const alertsApi = useAlertsApi();
+  const { roles, loaded } = useAuth();
+  const allowed = canComposeAlerts(roles);
+
+  const [draft, setDraft] = React.useState<AlertDraft>(EMPTY_DRAFT);
+  const [sending, setSending] = React.useState(false);
+  const [showErrors, setShowErrors] = React.useState(false);
+  const set = (patch: Partial<AlertDraft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const [sources, setSources] = React.useState<string[]>([]);
+  const [entities, setEntities] = React.useState<AudienceEntity[]>([]);
+  React.useEffect(() => {
+    if (!allowed) return;
+    let cancelled = false;
+    alertsApi.sources()
+      .then((list) => { if (!cancelled) setSources(list); })
+      .catch(() => { /* endpoint is optional */ });
+    api.get<AudienceEntity[]>('/alerts/audience/entities')
+      .then((res) => { if (!cancelled && Array.isArray(res.data)) setEntities(res.data); })
+      .catch(() => { if (!cancelled) toast.error(t('alertCompose.entitiesError')); });
+    return () => { cancelled = true; };
+  }, [allowed, api, alertsApi, t]);
+
+  // the preview is stamped "now", like the alert will be once sent
+  const [previewAt, setPreviewAt] = React.useState(() => new Date().toISOString());
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setPreviewAt(new Date().toISOString()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const error = validateDraft(draft);
+
+  const toggleRole = (role: string, on: boolean) =>
+    setDraft((d) => ({ ...d, roles: on ? [...d.roles, role] : d.roles.filter((r) => r !== role) }));
+
+  const onSend = async () => {
+    if (error) { setShowErrors(true); return; }
+    setSending(true);
+    try {
+      const res = await api.post<{ recipients?: number }>('/alerts', toCreateRequest(draft));
+      const recipients = res.data?.recipients;
+      toast.success(
+        typeof recipients === 'number'
+          ? t('alertCompose.sentTo', { count: recipients })
+          : t('alertCompose.sent')
+      );
+      setDraft(EMPTY_DRAFT);
+      setShowErrors(false);
+    } catch {
+      toast.error(t('alertCompose.sendError'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  if (!allowed) {
+    return (
+      <div className="max-w-xl space-y-3">
+        <h1 className="text-2xl font-semibold">{t('alertCompose.title')}</h1>
+        <p className="rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          {t('alertCompose.notAllowed')}
+        </p>
+        <Link href="/dashboard/alerts" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4" />
+          {t('alertCompose.back')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <Link href="/dashboard/alerts" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="h-4 w-4" />
+            {t('alertCompose.back')}
+          </Link>
+          <h1 className="mt-1 text-2xl font-semibold">{t('alertCompose.title')}</h1>
+          <p className="text-sm text-gray-600">{t('alertCompose.subtitle')}</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => { setDraft(EMPTY_DRAFT); setShowErrors(false); }}
+            disabled={sending}
+            className="px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            {t('alertCompose.clear')}
+          </button>
+          <button
+            type="button"
+            onClick={onSend}
+            disabled={sending}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+            {sending ? t('alertCompose.sending') : t('alertCompose.send')}
+          </button>
+        </div>
+      </div>
+
+      {showErrors && error && (
+        <p role="alert" className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-800">
+          {t(`alertCompose.errors.${error}`, { max: TITLE_MAX })}
+        </p>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Form */}
+        <div className="space-y-6">
+          <section className={card}>
+            <h2 className="font-semibold">{t('alertCompose.content')}</h2>
+
+            <div className="space-y-1">
+              <span className={label}>{t('alertCompose.severity')}</span>
+              <div className="flex gap-2" role="radiogroup" aria-label={t('alertCompose.severity')}>
+                {SEVERITIES.map((s) => (
+                  <button
+                    key={s}
+                    type="button"
+                    role="radio"
+                    aria-checked={draft.severity === s}
+                    onClick={() => set({ severity: s })}
+                    className={`rounded-md border px-3 py-1.5 text-sm ${
+                      draft.severity === s ? `${SEVERITY_TONE[s]} font-medium` : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    {t(`severity.${s}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="compose-title" className={label}>{t('alertCompose.titleLabel')}</label>
+              <input
+                id="compose-title"
+                className={input}
+                value={draft.title}
+                maxLength={TITLE_MAX}
+                onChange={(e) => set({ title: e.target.value })}
+                aria-invalid={showErrors && (error === 'title' || error === 'titleLength')}
+              />
+              <div className="text-right text-xs text-gray-500">{draft.title.length}/{TITLE_MAX}</div>
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="compose-body" className={label}>{t('alertCompose.body')}</label>
+              <textarea
+                id="compose-body"
+                rows={8}
+                className={`${input} font-mono`}
+                value={draft.body}
+                onChange={(e) => set({ body: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">{t('alertCompose.bodyHint')}</p>
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="compose-expires" className={label}>{t('alertCompose.expiresAt')}</label>
+              <input
+                id="compose-expires"
+                type="datetime-local"
+                className={input}
+                value={draft.expiresAt}
+                onChange={(e) => set({ expiresAt: e.target.value })}
+                aria-invalid={showErrors && error === 'expiresAt'}
+              />
+              <p className="text-xs text-gray-500">{t('alertCompose.expiresHint')}</p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <label htmlFor="compose-source" className={label}>{t('alertsPage.table.source')}</label>
+                <input
+                  id="compose-source"
+                  className={input}
+                  list="compose-sources"
+                  value={draft.source}
+                  onChange={(e) => set({ source: e.target.value })}
+                />
+                <datalist id="compose-sources">
+                  {sources.map((s) => <option key={s} value={s} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="compose-ref" className={label}>{t('alertsPage.table.sourceRef')}</label>
+                <input
+                  id="compose-ref"
+                  className={input}
+                  value={draft.sourceRef}
+                  onChange={(e) => set({ sourceRef: e.target.value })}
+                  aria-invalid={showErrors && error === 'sourceRef'}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section className={card}>
+            <h2 className="font-semibold">{t('alertCompose.audience.title')}</h2>
+
+            <div className="flex flex-wrap gap-4" role="radiogroup">
+              {AUDIENCES.map((a) => (
+                <label key={a} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="audience"
+                    checked={draft.audience === a}
+                    onChange={() => set({ audience: a })}
+                  />
+                  {t(`alertCompose.audience.${a}`)}
+                </label>
+              ))}
+            </div>
+
+            {draft.audience === 'roles' && (
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {AUDIENCE_ROLES.map((r) => (
+                  <label key={r} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.roles.includes(r)}
+                      onCheckedChange={(c) => toggleRole(r, c === true)}
+                    />
+                    {t(`alertCompose.roles.${r}`, { defaultValue: r })}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {draft.audience === 'users' && (
+              <UserPicker selected={draft.users} onChange={(users) => set({ users })} />
+            )}
+
+            {draft.audience === 'entity' && (
+              <select
+                className={input}
+                value={draft.entity?.id ?? ''}
+                onChange={(e) => set({ entity: entities.find((en) => String(en.id) === e.target.value) ?? null })}
+              >
+                <option value="">{t('alertCompose.audience.pickEntity')}</option>
+                {entities.map((en) => (
+                  <option key={en.id} value={en.id}>{en.name}</option>
+                ))}
+              </select>
+            )}
+          </section>
+        </div>
+
+        {/* Preview — the same card AlertDetailModal shows */}
+        <div className="space-y-2 lg:sticky lg:top-4 lg:self-start">
+          <h2 className="text-sm font-medium text-gray-600">{t('alertCompose.preview')}</h2>
+          <div className={`${cardSurface} overflow-hidden`}>
+            <AlertDetailView
+              alert={{
+                title: draft.title.trim() || t('alertModal.title'),
+                body: draft.body,
+                severityCode: draft.severity,
+                createdAt: previewAt,
+                source: draft.source.trim() || null,
+                sourceRef: draft.sourceRef.trim() || null,
+                expiresAt: draft.expiresAt && !Number.isNaN(new Date(draft.expiresAt).getTime())
+                  ? new Date(draft.expiresAt).toISOString()
+                  : null,
+              }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,127 +3,76 @@
 import * as React from 'react';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'react-toastify';
-import { useRouter, useSearchParams } from 'next/navigation';
-import { useApi } from '@/utils/api';
+import { isAxiosError } from 'axios';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useAlertsApi } from '@/utils/alertsApi';
+import { useAlerts, alertKey, AlertMutation } from '@/context/AlertsContext';
+import {
+  AlertsFilters, AlertsViewFilter, parseAlertsFilters, filtersToParams, buildAlertsQuery, matchesAlertsFilters, needsAck,
+} from '@/utils/alertsFilters';
+import {
+  useAlertsTablePrefs, AlertsColumn, AlertsSortKey, ALL_COLUMNS, PAGE_SIZES, DEFAULT_TABLE_PREFS, defaultSortDir,
+} from '@/utils/alertsTablePrefs';
+import { exportAlerts, openReportWindow, AlertsExportFormat } from '@/utils/alertsExport';
+import { groupAlerts, makeThread, AlertThread } from '@/utils/alertGroups';
+import { canComposeAlerts } from '@/utils/alertComposer';
+import { markdownToText } from '@/utils/alertMarkdown';
+import { useKeyboardShortcuts } from '@/utils/useKeyboardShortcuts';
+import { autoArchiveAt, purgeAt } from '@/utils/alertRetention';
+import { formatDuration } from '@/utils/alertsAnalytics';
+import { useAlertPreferences } from '@/context/AlertPreferencesContext';
+import { cacheAlertsPage, cachedAlertsPage, isOfflineError } from '@/utils/alertsOffline';
+import { useAuth } from '@/context/authContext';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Menu, MenuButton, MenuItem, MenuItems, Popover, PopoverButton, PopoverPanel } from '@headlessui/react';
+import {
+  ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronRight, CloudOff, CloudUpload, Columns3, Download, Keyboard, Send,
+  Settings,
+} from 'lucide-react';
+import Link from 'next/link';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { AlertItem, Severity } from '../types/alerts';
 import AlertDetailModal from '../components/AlertDetailModal';
+import AlertsFilterBar from '../components/AlertsFilterBar';
+import ShortcutsDialog from '../components/ShortcutsDialog';
 
-type Severity = 'info' | 'warning' | 'critical';
-
-export type AlertItem = {
-  id: number;                       // normalized to number
-  title: string;
-  body?: string;
-
-  createdAt: string;
-  readAt?: string | null;
-  archivedAt?: string | null;
-  expiresAt?: string | null;
-
-  read?: boolean;
-  archived?: boolean;
-
-  severity: Severity;
-  severityId?: number;
-  severityName?: string;
-  severityRank?: number;
-  colorHex?: string | null;
-
-  source?: string | null;
-  sourceRef?: string | null;
-};
-
-type AlertsQuery = {
-  page: number;
-  pageSize: number;
-  status?: 'active' | 'archived' | 'all';
-  onlyUnread?: boolean;
-  onlyRead?: boolean;
-  severity?: Severity;
-  search?: string;
-};
-
-type BackendItem = {
-  id: string | number;
-  title: string;
-  body?: string | null;
-
-  createdAtUtc?: string | null;
-  createdAt?: string | null;
-  isRead?: boolean | number | string;
-  readAt?: string | null;
-  archivedAt?: string | null;
-  expiresAt?: string | null;
-
-  severityId?: number;
-  severityCode?: string | null;
-  severityName?: string | null;
-  severityRank?: number | null;
-  colorHex?: string | null;
-
-  source?: string | null;
-  sourceRef?: string | null;
-};
-
-type BackendResponse = {
-  items: BackendItem[];
-  page: number;
-  pageSize: number;
-  totalCount: number;
-};
-
+/** Ids of the current page (or everything loaded so far when scrolling); the alerts themselves live in the shared store */
 type AlertsState = {
-  items: AlertItem[];
+  ids: string[];
   page: number;
   pageSize: number;
   total: number;
+  /** infinite scroll: where the next batch starts, null at the end */
+  nextCursor: string | null;
 };
 
-const DEFAULT_PAGE_SIZE = 10;
-
-function normalizeFromBackend(res: BackendResponse, page: number, pageSize: number): AlertsState {
-  const toSeverity = (raw?: string | null): Severity => {
-    const v = (raw ?? '').trim().toLowerCase();
-    return (v === 'info' || v === 'warning' || v === 'critical') ? (v as Severity) : 'info';
-  };
-
-  const items: AlertItem[] = (res?.items ?? []).map((a) => {
-    const idNum = typeof a.id === 'number' ? a.id : Number(a.id);
-    const createdIso = a.createdAtUtc ?? a.createdAt ?? new Date().toISOString();
-
-    const isRead =
-      a.isRead === true ||
-      a.isRead === 1 ||
-      a.isRead === '1' ||
-      !!a.readAt;
-
-    const rawSeverity = a.severityCode ?? (a as any).severity;
-
-    return {
-      id: Number.isFinite(idNum) ? idNum : Math.random(),
-      title: a.title,
-      body: a.body ?? undefined,
-
-      createdAt: createdIso,
-      readAt: a.readAt ?? null,
-      archivedAt: a.archivedAt ?? null,
-      expiresAt: a.expiresAt ?? null,
-
-      read: !!isRead,
-      archived: !!a.archivedAt,
-
-      severity: toSeverity(rawSeverity),
-      severityId: a.severityId,
-      severityName: a.severityName ?? undefined,
-      severityRank: a.severityRank ?? undefined,
-      colorHex: a.colorHex ?? null,
-
-      source: a.source ?? undefined,
-      sourceRef: a.sourceRef ?? undefined,
-    };
-  });
-
-  return { items, page, pageSize, total: res?.totalCount ?? items.length };
-}
+const COLUMN_META: Record<AlertsColumn, { labelKey: string; sortKey?: AlertsSortKey; className: string }> = {
+  title:      { labelKey: 'alertsPage.table.title', sortKey: 'title', className: 'w-[24%]' },
+  body:       { labelKey: 'alertsPage.table.body', className: 'w-[30%]' },
+  severity:   { labelKey: 'alertsPage.table.severity', sortKey: 'severityRank', className: 'w-[12%]' },
+  created:    { labelKey: 'alertsPage.table.created', sortKey: 'createdAt', className: 'w-[16%]' },
+  readAt:     { labelKey: 'alertsPage.table.readAt', sortKey: 'readAt', className: 'w-[14%]' },
+  archivedAt: { labelKey: 'alertsPage.table.archivedAt', sortKey: 'archivedAt', className: 'w-[14%]' },
+  status:     { labelKey: 'alertsPage.table.status', className: 'w-[8%]' },
+};
+/** page size used when walking every matching page ("select all matching", export) */
+const SELECT_ALL_PAGE_SIZE = 100;
+/** ids per bulk request */
+const BULK_CHUNK_SIZE = 100;
+/** how much of a thread's history is loaded when it is expanded */
+const THREAD_HISTORY_SIZE = 50;
+/** rows per request in infinite-scroll mode */
+const INFINITE_BATCH_SIZE = 50;
+/** largest refresh of an already scrolled list (one request) */
+const INFINITE_MAX_RELOAD = 500;
+/** start loading the next batch this many rows before the end */
+const LOAD_MORE_THRESHOLD = 10;
+const ROW_HEIGHT_ESTIMATE = 64;
+
+/** A table row as keyboard triage sees it: an alert or a collapsed thread header */
+type TriageRow =
+  | { key: string; alert: AlertItem; nested: boolean; thread?: undefined }
+  | { key: string; thread: AlertThread; alert?: undefined };
 
 // dynamic color helpers
 function hexToRgba10(hex?: string | null): string | undefined {
@@ -142,151 +91,911 @@ function fallbackPill(sev: Severity) {
 export default function AlertsPage() {
   const { t } = useTranslation('common');
   const router = useRouter();
+  const pathname = usePathname();
   const searchParams = useSearchParams();
-  const api = useApi();
+  const alertsApi = useAlertsApi();
+  const {
+    byId, upsert, onAlertsArrived, hubStatus, mutate, pendingIds,
+    markAllRead: storeMarkAllRead, archiveAll: storeArchiveAll,
+  } = useAlerts();
 
   // keep rows visible while reloading (no blink)
   const [loading, setLoading] = React.useState<boolean>(false);
   const [initialized, setInitialized] = React.useState<boolean>(false);
-  const loadingRef = React.useRef(false);
 
-  type ViewFilter = 'all' | 'unread' | 'read' | 'archived';
-  const [view, setView] = React.useState<ViewFilter>('all');
+  // filters live in the URL so filtered views can be bookmarked and shared
+  const filterKey = React.useMemo(() => {
+    const sp = new URLSearchParams(searchParams.toString());
+    sp.delete('id');
+    return sp.toString();
+  }, [searchParams]);
+  const filters = React.useMemo(() => parseAlertsFilters(new URLSearchParams(filterKey)), [filterKey]);
+
+  // sort, page size and visible columns are remembered per user
+  const { prefs, ready: prefsReady, update: updatePrefs } = useAlertsTablePrefs();
+  const { roles, user } = useAuth();
+  const userId = user?.userId;
+  const { retention } = useAlertPreferences();
+  const canCompose = canComposeAlerts(roles);
+  const { sortBy, sortDir, pageSize, columns, grouped, infinite } = prefs;
 
-  const [severity, setSeverity] = React.useState<'all' | Severity>('all');
   const [page, setPage] = React.useState<number>(1);
-  const [pageSize, setPageSize] = React.useState<number>(DEFAULT_PAGE_SIZE);
 
   const [data, setData] = React.useState<AlertsState>({
-    items: [],
+    ids: [],
     page: 1,
-    pageSize: DEFAULT_PAGE_SIZE,
+    pageSize: DEFAULT_TABLE_PREFS.pageSize,
     total: 0,
+    nextCursor: null,
   });
 
   const [selected, setSelected] = React.useState<AlertItem | null>(null);
   const [detailOpen, setDetailOpen] = React.useState(false);
 
+  // bulk selection (keys as in the store); survives paging, cleared on filter changes
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(() => new Set());
+  const [allMatchingSelected, setAllMatchingSelected] = React.useState(false);
+  const [selectingAll, setSelectingAll] = React.useState(false);
+  const [bulkBusy, setBulkBusy] = React.useState(false);
+  const [exporting, setExporting] = React.useState<AlertsExportFormat | null>(null);
+
+  // grouped view: expanded threads and their loaded history (ids, newest first)
+  const [expanded, setExpanded] = React.useState<Set<string>>(() => new Set());
+  const [threadHistory, setThreadHistory] = React.useState<Record<string, string[]>>({});
+  const [threadBusy, setThreadBusy] = React.useState<string | null>(null);
+
+  // keyboard triage: the row j/k point at, and the shortcuts overlay
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const cursorIndexRef = React.useRef(0);
+  const [shortcutsOpen, setShortcutsOpen] = React.useState(false);
+  const tbodyRef = React.useRef<HTMLTableSectionElement | null>(null);
+  const searchInputRef = React.useRef<HTMLInputElement | null>(null);
+
   const fetchIdRef = React.useRef(0);
 
-  const fetchAlerts = React.useCallback(async () => {
-    // prevent overlapping fetches
-    if (loadingRef.current) return;
-    loadingRef.current = true;
+  // infinite scroll: the scrolling table body, and what the loaded rows were queried with
+  const scrollRef = React.useRef<HTMLDivElement | null>(null);
+  const loadedQueryRef = React.useRef<string | null>(null);
+  const loadedCountRef = React.useRef(0);
+  const loadingMoreRef = React.useRef(false);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const savedScrollRef = React.useRef<number | null>(null);
+
+  // offline: when the shown rows are a saved copy (ms epoch it was fetched); the table is read-only then
+  const [offlineCopy, setOfflineCopy] = React.useState<number | null>(null);
+  const readOnly = offlineCopy != null;
+
+  const setQuery = React.useCallback((patch: Record<string, string | string[] | null>) => {
+    const sp = new URLSearchParams(searchParams.toString());
+    Object.entries(patch).forEach(([key, value]) => {
+      sp.delete(key);
+      if (Array.isArray(value)) value.forEach((v) => sp.append(key, v));
+      else if (value) sp.set(key, value);
+    });
+    const qs = sp.toString();
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+  }, [searchParams, router, pathname]);
+
+  const setFilters = React.useCallback(
+    (patch: Partial<AlertsFilters>) => setQuery(filtersToParams(patch)),
+    [setQuery]
+  );
+
+  const buildQuery = React.useCallback(
+    (p: number, size: number) => ({ ...buildAlertsQuery(filters, p, size), sortBy, sortDir }),
+    [filters, sortBy, sortDir]
+  );
 
+  const fetchAlerts = React.useCallback(async () => {
+    // a newer fetch supersedes this one: its response is dropped when it lands
     const thisFetchId = ++fetchIdRef.current;
     // subtle loading state — we won’t switch table to “Loading…”
     setLoading(true);
 
+    // infinite scroll: a refresh of the same query reloads everything scrolled so far,
+    // a new filter/sort starts over from the top
+    const queryKey = `${filterKey}|${sortBy}|${sortDir}`;
+    const sameQuery = infinite && loadedQueryRef.current === queryKey;
+    const cacheKey = `${queryKey}|${infinite ? 'scroll' : `${page}/${pageSize}`}`;
+    const size = infinite
+      ? sameQuery
+        ? Math.min(INFINITE_MAX_RELOAD, Math.max(INFINITE_BATCH_SIZE, loadedCountRef.current))
+        : INFINITE_BATCH_SIZE
+      : pageSize;
+
     try {
-      const params: AlertsQuery = { page, pageSize };
+      const params = buildQuery(infinite ? 1 : page, size);
+      const { items, total, nextCursor } = await alertsApi.list(params);
+      if (thisFetchId !== fetchIdRef.current) return;
 
-      if (view === 'archived') {
-        params.status = 'archived';
-      } else {
-        params.status = 'all';
-        if (view === 'unread') params.onlyUnread = true;
-        if (view === 'read') params.onlyRead = true;
+      upsert(items);
+      setData({
+        ids: items.map((it) => alertKey(it.id)),
+        page: infinite ? 1 : page,
+        pageSize: size,
+        total,
+        nextCursor: infinite ? nextCursor : null,
+      });
+      loadedQueryRef.current = infinite ? queryKey : null;
+      loadedCountRef.current = items.length;
+      if (infinite && !sameQuery) scrollRef.current?.scrollTo({ top: 0 });
+      setInitialized(true);
+      setOfflineCopy(null);
+      if (userId != null) cacheAlertsPage(userId, cacheKey, { items, total }).catch(() => {});
+    } catch (err) {
+      if (thisFetchId !== fetchIdRef.current) return;
+      // offline: fall back to the copy saved the last time this view loaded
+      const cached = isOfflineError(err) && userId != null
+        ? await cachedAlertsPage(userId, cacheKey).catch(() => null)
+        : null;
+      if (thisFetchId !== fetchIdRef.current) return;
+      if (cached) {
+        upsert(cached.items);
+        setData({
+          ids: cached.items.map((it) => alertKey(it.id)),
+          page: infinite ? 1 : page,
+          pageSize: size,
+          total: cached.total,
+          nextCursor: null,
+        });
+        loadedQueryRef.current = null;
+        setOfflineCopy(cached.savedAt);
+        setInitialized(true);
       }
+      // Don’t clear table on error — no blink; only toast.
+      // A 401 got past the refresh retry: the session is over and authContext is logging out
+      else if (!isAxiosError(err) || err.response?.status !== 401) toast.error(t('alertsPage.toast.fetchError'));
+    } finally {
+      if (thisFetchId === fetchIdRef.current) setLoading(false);
+    }
+  }, [alertsApi, upsert, buildQuery, page, pageSize, infinite, filterKey, sortBy, sortDir, userId, t]);
 
-      if (severity !== 'all') params.severity = (String(severity).toLowerCase() as Severity);
+  // next batch in infinite-scroll mode; a reload (new fetchId) makes it stale
+  const loadMore = React.useCallback(async () => {
+    const cursor = data.nextCursor;
+    if (!infinite || !cursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    const thisFetchId = fetchIdRef.current;
+    setLoadingMore(true);
 
-      const res = await api.get<BackendResponse>('/alerts', { params });
+    try {
+      const res = await alertsApi.list({ ...buildQuery(1, INFINITE_BATCH_SIZE), cursor });
       if (thisFetchId !== fetchIdRef.current) return;
 
-      const next = normalizeFromBackend(res.data, page, pageSize);
-      setData(prev => {
-        // Avoid re-render churn if data is effectively the same length & ids (optional micro-opt)
-        if (prev.total === next.total && prev.items.length === next.items.length) return next;
-        return next;
+      upsert(res.items);
+      setData((prev) => {
+        const known = new Set(prev.ids);
+        const ids = [...prev.ids, ...res.items.map((it) => alertKey(it.id)).filter((id) => !known.has(id))];
+        loadedCountRef.current = ids.length;
+        return { ...prev, ids, total: res.total, nextCursor: res.nextCursor };
       });
-      setInitialized(true);
-    } catch (err: any) {
+    } catch (err) {
       if (thisFetchId !== fetchIdRef.current) return;
-      // Don’t clear table on error — no blink; only toast
-      if (err?.response?.status === 401) router.replace('/');
-      else toast.error(t('alertsPage.toast.fetchError'));
+      if (!isAxiosError(err) || err.response?.status !== 401) toast.error(t('alertsPage.toast.fetchError'));
     } finally {
-      if (thisFetchId === fetchIdRef.current) setLoading(false);
-      loadingRef.current = false;
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
     }
-  }, [api, page, pageSize, severity, view, t, router]);
+  }, [alertsApi, upsert, buildQuery, infinite, data.nextCursor, t]);
 
-  // initial + filter changes
-  React.useEffect(() => { fetchAlerts(); }, [fetchAlerts]);
-  React.useEffect(() => { setPage(1); }, [view, severity]);
+  // initial + filter changes (once the stored table prefs are known)
+  React.useEffect(() => { if (prefsReady) fetchAlerts(); }, [prefsReady, fetchAlerts]);
+  React.useEffect(() => {
+    setPage(1);
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+  }, [filterKey]);
 
-  // deep-link open by ?id=
+  const matchesFilters = React.useCallback((it: AlertItem) => matchesAlertsFilters(it, filters), [filters]);
+
+  // sources for the filter bar; falls back to whatever the store has seen
+  const [sourceOptions, setSourceOptions] = React.useState<string[] | null>(null);
   React.useEffect(() => {
+    let cancelled = false;
+    alertsApi.sources()
+      .then((list) => { if (!cancelled) setSourceOptions(list); })
+      .catch(() => { /* endpoint is optional */ });
+    return () => { cancelled = true; };
+  }, [alertsApi]);
+  const knownSources = React.useMemo(() => {
+    if (sourceOptions) return sourceOptions;
+    const set = new Set<string>();
+    Object.values(byId).forEach((a) => { if (a.source) set.add(a.source); });
+    return Array.from(set);
+  }, [sourceOptions, byId]);
+
+  // Rows come from the store, so mutations made anywhere (modal, bell, hub) show up
+  // instantly; rows that stopped matching the current view simply drop out.
+  const pageItems = React.useMemo(
+    () => data.ids.map((id) => byId[id]).filter((a): a is AlertItem => !!a),
+    [data.ids, byId]
+  );
+  const rows = React.useMemo(() => pageItems.filter(matchesFilters), [pageItems, matchesFilters]);
+  const total = Math.max(0, data.total - (pageItems.length - rows.length));
+
+  // deep-link open by ?id=, once the alert shows up in the rows (whatever brought it there)
+  const deepLinked = React.useMemo(() => {
     const idParam = searchParams.get('id');
-    if (!idParam || data.items.length === 0) return;
+    return idParam ? rows.find((it) => alertKey(it.id) === idParam) ?? null : null;
+  }, [searchParams, rows]);
+  const openedLinkRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    // rows change on every mutation; open each link once so closing the modal sticks
+    if (!deepLinked || openedLinkRef.current === alertKey(deepLinked.id)) return;
+    openedLinkRef.current = alertKey(deepLinked.id);
+    setSelected(deepLinked);
+    setDetailOpen(true);
+  }, [deepLinked]);
+
+  // new alerts (pushed or polled) land at the top of the first page,
+  // as long as the table is in newest-first order
+  React.useEffect(() => {
+    return onAlertsArrived((arrived) => {
+      if ((!infinite && page !== 1) || sortBy !== 'createdAt' || sortDir !== 'desc') return;
+      const fresh = arrived.filter(matchesFilters).map((it) => alertKey(it.id));
+      if (fresh.length === 0) return;
+      setData((prev) => {
+        const add = fresh.filter((id) => !prev.ids.includes(id));
+        if (add.length === 0) return prev;
+        const ids = [...add, ...prev.ids];
+        // a scrolled list just grows; a page keeps its size
+        return { ...prev, ids: infinite ? ids : ids.slice(0, prev.pageSize), total: prev.total + add.length };
+      });
+    });
+  }, [onAlertsArrived, page, infinite, matchesFilters, sortBy, sortDir]);
 
-    const idNum = Number(idParam);
-    const found = data.items.find((it) => it.id === (Number.isFinite(idNum) ? idNum : (it.id as any)));
-    if (found) { setSelected(found); setDetailOpen(true); }
-  }, [searchParams, data.items]);
+  // refetch after a reconnect — pushes may have been missed while offline
+  const prevHubStatusRef = React.useRef(hubStatus);
+  React.useEffect(() => {
+    const prev = prevHubStatusRef.current;
+    prevHubStatusRef.current = hubStatus;
+    if (hubStatus === 'connected' && (prev === 'reconnecting' || prev === 'disconnected')) fetchAlerts();
+  }, [hubStatus, fetchAlerts]);
 
-  // listen for global refresh events fired by the modal/actions
+  // back online while looking at a saved copy: load the real thing
   React.useEffect(() => {
-    const handler = () => fetchAlerts();
-    window.addEventListener('alerts-updated', handler);
-    return () => window.removeEventListener('alerts-updated', handler);
-  }, [fetchAlerts]);
-
-  const openDetail = (alert: AlertItem) => { setSelected(alert); setDetailOpen(true); };
-
-  const removeIfNoLongerMatches = (updated: AlertItem): boolean => {
-    if (view === 'unread' && updated.read) return true;
-    if (view === 'read' && !updated.read) return true;
-    if (view === 'archived' && !updated.archived) return true;
-    return false;
+    if (!readOnly) return;
+    window.addEventListener('online', fetchAlerts);
+    return () => window.removeEventListener('online', fetchAlerts);
+  }, [readOnly, fetchAlerts]);
+
+  const toggleSort = (key: AlertsSortKey) => {
+    updatePrefs(
+      key === sortBy
+        ? { sortDir: sortDir === 'asc' ? 'desc' : 'asc' }
+        : { sortBy: key, sortDir: defaultSortDir(key) }
+    );
+    setPage(1);
+  };
+
+  const toggleColumn = (col: AlertsColumn, visible: boolean) => {
+    updatePrefs({ columns: visible ? [...columns, col] : columns.filter((c) => c !== col) });
   };
 
-  const onMarkedRead = (id: string | number) => {
-    setData((prev) => {
-      const items = prev.items
-        .map((it) => (it.id == id ? { ...it, read: true, readAt: new Date().toISOString() } : it))
-        .filter((it) => !removeIfNoLongerMatches(it));
-      return { ...prev, items, total: prev.total - (items.length < prev.items.length ? 1 : 0) };
+  /* ---- threads (grouped view) ---- */
+
+  const threads = React.useMemo<AlertThread[] | null>(() => {
+    if (!grouped) return null;
+    return groupAlerts(rows).map((th) => {
+      const history = threadHistory[th.key];
+      if (!history) return th;
+      const known = new Map(th.items.map((a) => [alertKey(a.id), a]));
+      history.forEach((id) => { if (byId[id] && !known.has(id)) known.set(id, byId[id]); });
+      return makeThread(th.key, Array.from(known.values()));
     });
+  }, [grouped, rows, threadHistory, byId]);
+
+  /** Rows in display order (what j/k walk through) */
+  const visibleRows = React.useMemo<TriageRow[]>(() => {
+    if (!threads) return rows.map((a) => ({ key: alertKey(a.id), alert: a, nested: false }));
+    return threads.flatMap<TriageRow>((th) =>
+      th.items.length < 2
+        ? [{ key: alertKey(th.latest.id), alert: th.latest, nested: false }]
+        : [
+            { key: `thread:${th.key}`, thread: th },
+            ...(expanded.has(th.key)
+              ? th.items.map((a) => ({ key: alertKey(a.id), alert: a, nested: true }))
+              : []),
+          ]
+    );
+  }, [threads, rows, expanded]);
+
+  // infinite scroll renders only the rows near the viewport
+  const virtualizer = useVirtualizer({
+    count: infinite ? visibleRows.length : 0,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT_ESTIMATE,
+    getItemKey: (index) => visibleRows[index]?.key ?? index,
+    overscan: 10,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastRenderedIndex = virtualItems.length ? virtualItems[virtualItems.length - 1].index : -1;
+
+  React.useEffect(() => {
+    if (!infinite || !initialized || !data.nextCursor) return;
+    if (lastRenderedIndex >= visibleRows.length - LOAD_MORE_THRESHOLD) loadMore();
+  }, [infinite, initialized, data.nextCursor, lastRenderedIndex, visibleRows.length, loadMore]);
+
+  // the whole thread, not only the part on this page (regardless of the current view)
+  const loadThread = async (th: AlertThread): Promise<string[]> => {
+    if (threadHistory[th.key]) return threadHistory[th.key];
+    const { items } = await alertsApi.list({
+      page: 1,
+      pageSize: THREAD_HISTORY_SIZE,
+      status: 'all',
+      source: th.source ? [th.source] : undefined,
+      sourceRef: th.sourceRef ?? undefined,
+      sortBy: 'createdAt',
+      sortDir: 'desc',
+    });
+    upsert(items);
+    const ids = items.map((it) => alertKey(it.id));
+    setThreadHistory((prev) => ({ ...prev, [th.key]: ids }));
+    return ids;
   };
 
-  const onMarkedUnread = (id: string | number) => {
-    setData((prev) => {
-      const items = prev.items
-        .map((it) => (it.id == id ? { ...it, read: false, readAt: null } : it))
-        .filter((it) => !removeIfNoLongerMatches(it));
-      return { ...prev, items, total: prev.total - (items.length < prev.items.length ? 1 : 0) };
+  const toggleThread = (th: AlertThread) => {
+    const open = !expanded.has(th.key);
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (open) next.add(th.key);
+      else next.delete(th.key);
+      return next;
     });
+    if (open) loadThread(th).catch(() => toast.error(t('alertsPage.thread.loadError')));
   };
 
-  const markAllRead = async () => {
+  const runThreadAction = async (th: AlertThread, action: 'markRead' | 'archive') => {
+    setThreadBusy(th.key);
     try {
-      await api.post('/alerts/mark-all-read', {});
-      setData((prev) => {
-        if (view === 'unread') return { ...prev, items: [], total: prev.total - prev.items.length };
-        return { ...prev, items: prev.items.map((it) => ({ ...it, read: true, readAt: new Date().toISOString() })) };
-      });
-      try { window.dispatchEvent(new Event('alerts-updated')); } catch {}
-      toast.success(t('alertsPage.toast.markedAllRead'));
+      const historyIds = await loadThread(th);
+      const keys = Array.from(new Set([...th.items.map((a) => alertKey(a.id)), ...historyIds]));
+      const targets = keys
+        .map((k) => byId[k] ?? th.items.find((a) => alertKey(a.id) === k))
+        .filter((a): a is AlertItem => !!a && (action === 'markRead' ? !a.read : !a.archived));
+      if (targets.length === 0) return;
+
+      if (await mutate(action, targets.map((a) => a.id))) {
+        toast.success(t(action === 'markRead' ? 'alertsPage.thread.markedRead' : 'alertsPage.thread.archived'));
+        if (action === 'archive') fetchAlerts();
+      } else {
+        toast.error(t('alertsPage.thread.actionError'));
+      }
     } catch {
-      toast.error(t('alertsPage.toast.markAllReadError'));
+      toast.error(t('alertsPage.thread.actionError'));
+    } finally {
+      setThreadBusy(null);
     }
   };
 
+  const openDetail = (alert: AlertItem) => {
+    savedScrollRef.current = scrollRef.current?.scrollTop ?? null;
+    setSelected(alert);
+    setDetailOpen(true);
+  };
+
+  // back from the modal: the list may have re-rendered (or refetched) underneath it,
+  // so put the scrolled table back where it was
+  React.useEffect(() => {
+    if (detailOpen || savedScrollRef.current == null) return;
+    const top = savedScrollRef.current;
+    savedScrollRef.current = null;
+    requestAnimationFrame(() => scrollRef.current?.scrollTo({ top }));
+  }, [detailOpen]);
+
+  const closeDetail = () => {
+    setDetailOpen(false);
+    // drop the deep link so it doesn't reopen on the next filter change
+    if (searchParams.get('id')) setQuery({ id: null });
+  };
+
+  const markAllRead = async () => {
+    if (await storeMarkAllRead()) toast.success(t('alertsPage.toast.markedAllRead'));
+    else toast.error(t('alertsPage.toast.markAllReadError'));
+  };
+
   const archiveAll = async () => {
+    if (await storeArchiveAll()) toast.success(t('alertsPage.toast.archivedAll'));
+    else toast.error(t('alertsPage.toast.archiveAllError'));
+  };
+
+  /* ---- bulk selection ---- */
+
+  const pageKeys = rows.map((a) => alertKey(a.id));
+  const pageSelectedCount = pageKeys.filter((k) => selectedIds.has(k)).length;
+  const pageAllSelected = pageKeys.length > 0 && pageSelectedCount === pageKeys.length;
+
+  const toggleRow = (key: string, checked: boolean) => {
+    setAllMatchingSelected(false);
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const togglePage = (checked: boolean) => {
+    setAllMatchingSelected(false);
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      pageKeys.forEach((k) => (checked ? next.add(k) : next.delete(k)));
+      return next;
+    });
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+  };
+
+  // walks every page of the current filters/sort
+  const fetchAllMatching = async () => {
+    const items: AlertItem[] = [];
+    for (let p = 1; ; p++) {
+      const { items: batch, total } = await alertsApi.list(buildQuery(p, SELECT_ALL_PAGE_SIZE));
+      items.push(...batch);
+      if (batch.length < SELECT_ALL_PAGE_SIZE || items.length >= total) break;
+    }
+    upsert(items);
+    return items;
+  };
+
+  const selectAllMatching = async () => {
+    setSelectingAll(true);
     try {
-      await api.post('/alerts/archive-all', {});
-      toast.success(t('alertsPage.toast.archivedAll'));
-      try { window.dispatchEvent(new Event('alerts-updated')); } catch {}
-      fetchAlerts();
+      const items = await fetchAllMatching();
+      setSelectedIds(new Set(items.map((it) => alertKey(it.id))));
+      setAllMatchingSelected(true);
     } catch {
-      toast.error(t('alertsPage.toast.archiveAllError'));
+      toast.error(t('alertsPage.bulk.selectAllError'));
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  const runExport = async (format: AlertsExportFormat) => {
+    if (exporting) return;
+    // the PDF report window must be opened before any await
+    const reportWindow = format === 'pdf' ? openReportWindow(t('alertsPage.export.preparing')) : null;
+    if (format === 'pdf' && !reportWindow) {
+      toast.error(t('alertsPage.export.popupBlocked'));
+      return;
+    }
+
+    setExporting(format);
+    try {
+      const items = await fetchAllMatching();
+      if (!(await exportAlerts(format, items, t, reportWindow))) toast.error(t('alertsPage.export.popupBlocked'));
+    } catch {
+      reportWindow?.close();
+      toast.error(t('alertsPage.export.error'));
+    } finally {
+      setExporting(null);
     }
   };
 
+  const runBulk = async (action: AlertMutation) => {
+    const keys = Array.from(selectedIds);
+    if (keys.length === 0 || bulkBusy) return;
+
+    setBulkBusy(true);
+    const failed: string[] = [];
+    try {
+      for (let i = 0; i < keys.length; i += BULK_CHUNK_SIZE) {
+        const chunk = keys.slice(i, i + BULK_CHUNK_SIZE);
+        const ok = await mutate(action, chunk.map((k) => byId[k]?.id ?? k));
+        if (!ok) failed.push(...chunk);
+      }
+    } finally {
+      setBulkBusy(false);
+    }
+
+    const done = keys.length - failed.length;
+    if (failed.length === 0) {
+      toast.success(t('alertsPage.bulk.done', { count: done }));
+    } else if (done === 0) {
+      toast.error(t('alertsPage.bulk.failed', { count: failed.length }));
+    } else {
+      toast.warning(t('alertsPage.bulk.partial', { ok: done, failed: failed.length }));
+    }
+
+    // keep the failures selected so they can be retried
+    setSelectedIds(new Set(failed));
+    setAllMatchingSelected(false);
+    // refill the page with rows that may have moved in from the next one
+    fetchAlerts();
+  };
+
+  /* ---- keyboard triage ---- */
+
+  const focusRow = React.useCallback((key: string) => {
+    setCursor(key);
+    const find = () => tbodyRef.current?.querySelector<HTMLElement>(`[data-triage="${CSS.escape(key)}"]`);
+    const el = find();
+    if (el) {
+      el.focus();
+      el.scrollIntoView({ block: 'nearest' });
+      return;
+    }
+    // virtualized and off-screen: bring it into range first
+    const index = visibleRows.findIndex((r) => r.key === key);
+    if (index < 0 || !infinite) return;
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    requestAnimationFrame(() => find()?.focus());
+  }, [visibleRows, infinite, virtualizer]);
+
+  const moveCursor = (delta: number) => {
+    if (visibleRows.length === 0) return;
+    const at = visibleRows.findIndex((r) => r.key === cursor);
+    const from = at >= 0 ? at : delta > 0 ? -1 : visibleRows.length;
+    const next = Math.min(visibleRows.length - 1, Math.max(0, from + delta));
+    cursorIndexRef.current = next;
+    focusRow(visibleRows[next].key);
+  };
+
+  // the row under the cursor went away (archived, filtered out): stay at the same position
+  React.useEffect(() => {
+    if (!cursor || detailOpen) return;
+    const at = visibleRows.findIndex((r) => r.key === cursor);
+    if (at >= 0) { cursorIndexRef.current = at; return; }
+    if (visibleRows.length === 0) { setCursor(null); return; }
+    const next = visibleRows[Math.min(cursorIndexRef.current, visibleRows.length - 1)];
+    // only take focus back if it was lost with the removed row
+    const active = document.activeElement;
+    if (!active || active === document.body) focusRow(next.key);
+    else setCursor(next.key);
+  }, [visibleRows, cursor, detailOpen, focusRow]);
+
+  const currentRow = visibleRows.find((r) => r.key === cursor) ?? null;
+
+  const triageMutate = async (a: AlertItem, action: AlertMutation, errorKey: string) => {
+    if (!(await mutate(action, [a.id]))) toast.error(t(errorKey));
+  };
+
+  // keys that change alerts; off while showing a saved offline copy
+  const triageActions = {
+    r: () => {
+      if (currentRow?.thread) runThreadAction(currentRow.thread, 'markRead');
+      else if (currentRow && !currentRow.alert.read) {
+        triageMutate(currentRow.alert, 'markRead', 'alertsPage.toast.markReadError');
+      }
+    },
+    u: () => {
+      if (currentRow?.alert?.read) triageMutate(currentRow.alert, 'markUnread', 'alertModal.markUnreadError');
+    },
+    e: () => {
+      if (currentRow?.thread) runThreadAction(currentRow.thread, 'archive');
+      else if (currentRow && !currentRow.alert.archived) {
+        triageMutate(currentRow.alert, 'archive', 'alertModal.archiveError');
+      }
+    },
+    x: () => {
+      if (!currentRow) return;
+      const keys = currentRow.thread ? currentRow.thread.items.map((a) => alertKey(a.id)) : [currentRow.key];
+      const on = !keys.every((k) => selectedIds.has(k));
+      setAllMatchingSelected(false);
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        keys.forEach((k) => (on ? next.add(k) : next.delete(k)));
+        return next;
+      });
+    },
+  };
+
+  useKeyboardShortcuts(
+    {
+      j: () => moveCursor(1),
+      k: () => moveCursor(-1),
+      Enter: () => {
+        if (!currentRow) return;
+        // focus first, so the dialog hands focus back to this row when it closes
+        focusRow(currentRow.key);
+        if (currentRow.thread) toggleThread(currentRow.thread);
+        else openDetail(currentRow.alert);
+      },
+      ...(readOnly ? {} : triageActions),
+      '/': () => searchInputRef.current?.focus(),
+      '?': () => setShortcutsOpen(true),
+    },
+    !detailOpen && !shortcutsOpen
+  );
+
+
   const showInitialLoading = !initialized && loading;
 
+  // what the user's cleanup rules are about to do with this alert
+  const retentionHint = (a: AlertItem) => {
+    const archiveAt = autoArchiveAt(a, retention);
+    const deleteAt = purgeAt(a, retention);
+    const at = archiveAt ?? deleteAt;
+    if (at == null) return null;
+    const left = at - Date.now();
+    const key = archiveAt != null ? 'autoArchive' : 'autoDelete';
+    return (
+      <div className="mt-0.5 text-xs text-gray-500" title={new Date(at).toLocaleString()}>
+        {left > 0
+          ? t(`alertsPage.row.${key}In`, { time: formatDuration(left) })
+          : t(`alertsPage.row.${key}Soon`)}
+      </div>
+    );
+  };
+
+  const renderCell = (col: AlertsColumn, a: AlertItem) => {
+    switch (col) {
+      case 'title':
+        return (
+          <td className="px-4 py-3 align-middle">
+            <div className="flex items-center gap-2 min-w-0">
+              {!a.read && <span className="inline-block h-2 w-2 rounded-full bg-blue-600" />}
+              <span className="truncate font-medium" title={a.title}>{a.title}</span>
+            </div>
+            {a.source && (
+              <div className="mt-0.5 text-xs text-gray-500 truncate" title={a.sourceRef || ''}>
+                {a.source}{a.sourceRef ? ` · ${a.sourceRef}` : ''}
+              </div>
+            )}
+          </td>
+        );
+
+      case 'body':
+        return (
+          <td className="px-4 py-3 align-middle">
+            <div className="min-w-0 truncate text-gray-700" title={markdownToText(a.body)}>
+              {markdownToText(a.body) || '—'}
+            </div>
+            {a.expiresAt && (
+              <div className="mt-0.5 text-xs text-gray-500">
+                {t('alertsPage.row.expires')}:&nbsp;
+                <time dateTime={a.expiresAt}>{new Date(a.expiresAt).toLocaleString()}</time>
+              </div>
+            )}
+            {a.snoozedUntil && (
+              <div className="mt-0.5 text-xs text-indigo-700">
+                {t('alertsPage.row.snoozedUntil')}:&nbsp;
+                <time dateTime={a.snoozedUntil}>{new Date(a.snoozedUntil).toLocaleString()}</time>
+              </div>
+            )}
+            {retentionHint(a)}
+          </td>
+        );
+
+      case 'severity':
+        return (
+          <td className="px-4 py-3 align-middle">
+            <div className="flex items-center gap-2">
+              {a.colorHex ? (
+                <span
+                  className={basePill}
+                  style={{
+                    color: a.colorHex || undefined,
+                    borderColor: a.colorHex || undefined,
+                    backgroundColor: hexToRgba10(a.colorHex),
+                  }}
+                >
+                  {a.severityName ?? t(`severity.${a.severity}`, a.severity)}
+                </span>
+              ) : (
+                <span className={fallbackPill(a.severity)}>
+                  {a.severityName ?? t(`severity.${a.severity}`, a.severity)}
+                </span>
+              )}
+            </div>
+          </td>
+        );
+
+      case 'created': {
+        // read/archived times sit under "Created" unless they have their own column
+        const readAt = !columns.includes('readAt') ? a.readAt : null;
+        const archivedAt = !columns.includes('archivedAt') ? a.archivedAt : null;
+        return (
+          <td className="px-4 py-3 align-middle text-gray-600">
+            <div>
+              <time dateTime={a.createdAt} title={new Date(a.createdAt).toLocaleString()}>
+                {new Date(a.createdAt).toLocaleString()}
+              </time>
+            </div>
+            {(readAt || archivedAt) && (
+              <div className="mt-1 space-y-1">
+                {readAt && (
+                  <div className="text-xs text-gray-500">
+                    {t('alertsPage.row.readAt')}:&nbsp;
+                    <time dateTime={readAt}>{new Date(readAt).toLocaleString()}</time>
+                  </div>
+                )}
+                {archivedAt && (
+                  <div className="text-xs text-gray-500">
+                    {t('alertsPage.row.archivedAt')}:&nbsp;
+                    <time dateTime={archivedAt}>{new Date(archivedAt).toLocaleString()}</time>
+                  </div>
+                )}
+              </div>
+            )}
+          </td>
+        );
+      }
+
+      case 'readAt':
+      case 'archivedAt': {
+        const at = a[col];
+        return (
+          <td className="px-4 py-3 align-middle text-gray-600">
+            {at ? <time dateTime={at}>{new Date(at).toLocaleString()}</time> : '—'}
+          </td>
+        );
+      }
+
+      case 'status':
+        return (
+          <td className="px-4 py-3 align-middle">
+            {a.archived
+              ? t('alertsPage.row.archived')
+              : a.snoozedUntil
+              ? t('alertsPage.row.snoozed')
+              : a.read
+              ? t('alertsPage.row.read')
+              : t('alertsPage.row.unread')}
+            {pendingIds.has(alertKey(a.id)) && (
+              <span
+                className="ml-2 inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800"
+                title={t('offline.pendingHint')}
+              >
+                <CloudUpload className="h-3 w-3" />
+                {t('offline.pending')}
+              </span>
+            )}
+            {needsAck(a) && (
+              <span className="ml-2 inline-flex items-center rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800">
+                {t('ack.needed')}
+              </span>
+            )}
+          </td>
+        );
+    }
+  };
+
+  const cursorRing = (key: string) => (cursor === key ? 'outline outline-2 -outline-offset-2 outline-blue-500' : '');
+
+  /** lets the virtualizer measure a row's real height */
+  const measureProps = (index?: number) =>
+    index == null ? {} : { 'data-index': index, ref: virtualizer.measureElement };
+
+  const renderAlertRow = (a: AlertItem, nested = false, index?: number) => (
+    <tr
+      key={a.id}
+      {...measureProps(index)}
+      data-triage={alertKey(a.id)}
+      className={`text-sm hover:bg-gray-50 cursor-pointer focus:outline-none ${nested ? 'bg-gray-50/60' : ''} ${cursorRing(alertKey(a.id))}`}
+      onClick={() => openDetail(a)}
+      onFocus={(e) => { if (e.target === e.currentTarget) setCursor(alertKey(a.id)); }}
+      tabIndex={0}
+      role="button"
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); openDetail(a); }
+      }}
+      aria-label={t('alertsPage.actions.viewAlert')}
+    >
+      {/* Select (doesn't open the detail) */}
+      <td
+        className={`py-3 align-middle ${nested ? 'pl-8 pr-4' : 'px-4'}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.stopPropagation()}
+      >
+        <Checkbox
+          checked={selectedIds.has(alertKey(a.id))}
+          onCheckedChange={(c) => toggleRow(alertKey(a.id), c === true)}
+          disabled={readOnly}
+          aria-label={t('alertsPage.bulk.selectRow', { title: a.title })}
+        />
+      </td>
+
+      {columns.map((col) => (
+        <React.Fragment key={col}>{renderCell(col, a)}</React.Fragment>
+      ))}
+    </tr>
+  );
+
+  const renderThreadRow = (th: AlertThread, index?: number) => {
+    const open = expanded.has(th.key);
+    const keys = th.items.map((a) => alertKey(a.id));
+    const selectedCount = keys.filter((k) => selectedIds.has(k)).length;
+    const busy = threadBusy === th.key;
+
+    return (
+      <tr
+        key={`thread:${th.key}`}
+        {...measureProps(index)}
+        data-triage={`thread:${th.key}`}
+        className={`text-sm hover:bg-gray-50 cursor-pointer focus:outline-none ${cursorRing(`thread:${th.key}`)}`}
+        onClick={() => toggleThread(th)}
+        onFocus={(e) => { if (e.target === e.currentTarget) setCursor(`thread:${th.key}`); }}
+        tabIndex={0}
+        aria-expanded={open}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); toggleThread(th); }
+        }}
+      >
+        <td className="px-4 py-3 align-middle" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+          <Checkbox
+            checked={selectedCount === keys.length ? true : selectedCount > 0 ? 'indeterminate' : false}
+            onCheckedChange={(c) => {
+              setAllMatchingSelected(false);
+              setSelectedIds((prev) => {
+                const next = new Set(prev);
+                keys.forEach((k) => (c === true ? next.add(k) : next.delete(k)));
+                return next;
+              });
+            }}
+            disabled={readOnly}
+            aria-label={t('alertsPage.thread.select', { title: th.latest.title })}
+          />
+        </td>
+
+        {columns.map((col) => {
+          if (col === 'title') {
+            return (
+              <td key={col} className="px-4 py-3 align-middle">
+                <div className="flex items-center gap-2 min-w-0">
+                  {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                  {th.unread > 0 && <span className="inline-block h-2 w-2 rounded-full bg-blue-600" />}
+                  <span className="truncate font-medium" title={th.latest.title}>{th.latest.title}</span>
+                  <span className="shrink-0 rounded-full bg-gray-200 px-2 py-0.5 text-xs font-medium text-gray-700">
+                    {t('alertsPage.thread.count', { count: th.items.length })}
+                  </span>
+                </div>
+                <div className="mt-0.5 flex items-center gap-3 pl-6 text-xs text-gray-500">
+                  <span className="truncate">{th.source} · {th.sourceRef}</span>
+                  <span className="flex shrink-0 items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                    {th.unread > 0 && (
+                      <button
+                        type="button"
+                        disabled={busy || readOnly}
+                        onClick={() => runThreadAction(th, 'markRead')}
+                        className="text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        {t('alertsPage.thread.markRead')}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      disabled={busy || readOnly}
+                      onClick={() => runThreadAction(th, 'archive')}
+                      className="text-gray-600 hover:underline disabled:opacity-50"
+                    >
+                      {t('alertsPage.thread.archive')}
+                    </button>
+                  </span>
+                </div>
+              </td>
+            );
+          }
+          if (col === 'status') {
+            return (
+              <td key={col} className="px-4 py-3 align-middle">
+                {th.unread > 0 ? t('alertsPage.thread.unread', { count: th.unread }) : t('alertsPage.row.read')}
+              </td>
+            );
+          }
+          // severity, dates etc. of the latest alert in the thread
+          return <React.Fragment key={col}>{renderCell(col, th.latest)}</React.Fragment>;
+        })}
+      </tr>
+    );
+  };
+
+  const renderRow = (r: TriageRow, index?: number) =>
+    r.thread ? renderThreadRow(r.thread, index) : renderAlertRow(r.alert, r.nested, index);
+
+  // spacers standing in for the rows the virtualizer skipped
+  const padTop = virtualItems.length ? virtualItems[0].start : 0;
+  const padBottom = virtualItems.length ? virtualizer.getTotalSize() - virtualItems[virtualItems.length - 1].end : 0;
+  const spacer = (height: number) =>
+    height > 0 && (
+      <tr aria-hidden="true">
+        <td colSpan={columns.length + 1} style={{ height, padding: 0 }} />
+      </tr>
+    );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -294,20 +1003,78 @@ export default function AlertsPage() {
         <h1 className="text-2xl font-semibold">{t('alertsPage.title')}</h1>
 
         <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShortcutsOpen(true)}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition"
+            title={t('shortcuts.title')}
+            aria-keyshortcuts="?"
+          >
+            <Keyboard className="h-4 w-4" />
+            <span className="sr-only">{t('shortcuts.title')}</span>
+          </button>
           <button
             type="button"
             onClick={markAllRead}
-            className="px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition"
+            disabled={readOnly}
+            className="px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
           >
             {t('alertsPage.actions.markAllRead')}
           </button>
           <button
             type="button"
             onClick={archiveAll}
-            className="px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition"
+            disabled={readOnly}
+            className="px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition disabled:opacity-50"
           >
             {t('alertsPage.actions.archiveAll')}
           </button>
+
+          <Menu as="div" className="relative">
+            <MenuButton
+              disabled={!!exporting}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              {exporting ? t('alertsPage.export.exporting') : t('alertsPage.export.label')}
+              <ChevronDown className="h-4 w-4" />
+            </MenuButton>
+            <MenuItems className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg overflow-hidden z-50 border">
+              {(['csv', 'xlsx', 'pdf'] as AlertsExportFormat[]).map((format) => (
+                <MenuItem key={format}>
+                  {({ active }) => (
+                    <button
+                      type="button"
+                      onClick={() => runExport(format)}
+                      className={`${active ? 'bg-gray-100' : ''} block w-full px-4 py-2 text-left text-sm`}
+                    >
+                      {t(`alertsPage.export.${format}`)}
+                    </button>
+                  )}
+                </MenuItem>
+              ))}
+            </MenuItems>
+          </Menu>
+
+          {canCompose && (
+            <Link
+              href="/dashboard/alerts/compose"
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition"
+              title={t('alertCompose.title')}
+            >
+              <Send className="h-4 w-4" />
+              <span className="sr-only sm:not-sr-only">{t('alertCompose.short')}</span>
+            </Link>
+          )}
+
+          <Link
+            href="/dashboard/alerts/preferences"
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition"
+            title={t('alertPrefs.title')}
+          >
+            <Settings className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">{t('alertPrefs.short')}</span>
+          </Link>
         </div>
       </div>
 
@@ -318,13 +1085,15 @@ export default function AlertsPage() {
           <label className="text-sm">{t('alertsPage.filters.view')}:</label>
           <select
             className="rounded-md border px-2 py-1 text-sm"
-            value={view}
-            onChange={(e) => setView(e.target.value as any)}
+            value={filters.view}
+            onChange={(e) => setFilters({ view: e.target.value as AlertsViewFilter })}
           >
             <option value="all">{t('alertsPage.filters.all')}</option>
             <option value="unread">{t('alertsPage.filters.unread')}</option>
             <option value="read">{t('alertsPage.filters.read')}</option>
             <option value="archived">{t('alertsPage.filters.archived')}</option>
+            <option value="snoozed">{t('alertsPage.filters.snoozed')}</option>
+            <option value="unacknowledged">{t('alertsPage.filters.unacknowledged')}</option>
           </select>
         </div>
 
@@ -333,8 +1102,8 @@ export default function AlertsPage() {
           <label className="text-sm">{t('alertsPage.filters.severity')}:</label>
           <select
             className="rounded-md border px-2 py-1 text-sm"
-            value={severity}
-            onChange={(e) => setSeverity(e.target.value as 'all' | Severity)}
+            value={filters.severity}
+            onChange={(e) => setFilters({ severity: e.target.value as 'all' | Severity })}
           >
             <option value="all">{t('alertsPage.filters.all')}</option>
             <option value="info">{t('severity.info')}</option>
@@ -344,20 +1113,137 @@ export default function AlertsPage() {
         </div>
 
         {/* Page size */}
-        <div className="flex items-center gap-2">
-          <label className="text-sm">{t('alertsPage.filters.pageSize')}:</label>
-          <select
-            className="rounded-md border px-2 py-1 text-sm"
-            value={pageSize}
-            onChange={(e) => setPageSize(parseInt(e.target.value, 10))}
+        {!infinite && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm">{t('alertsPage.filters.pageSize')}:</label>
+            <select
+              className="rounded-md border px-2 py-1 text-sm"
+              value={pageSize}
+              onChange={(e) => { updatePrefs({ pageSize: parseInt(e.target.value, 10) }); setPage(1); }}
+            >
+              {PAGE_SIZES.map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Infinite scroll */}
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={infinite}
+            onCheckedChange={(c) => { updatePrefs({ infinite: c === true }); setPage(1); }}
+          />
+          {t('alertsPage.filters.infiniteScroll')}
+        </label>
+
+        {/* Grouping */}
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={grouped} onCheckedChange={(c) => updatePrefs({ grouped: c === true })} />
+          {t('alertsPage.filters.groupBySource')}
+        </label>
+
+        {/* Columns */}
+        <Popover className="relative">
+          <PopoverButton className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm hover:bg-gray-50">
+            <Columns3 className="h-4 w-4" />
+            {t('alertsPage.filters.columns')}
+          </PopoverButton>
+          <PopoverPanel
+            anchor="bottom start"
+            className="z-20 mt-1 w-52 rounded-md border bg-white p-2 text-sm shadow-lg"
           >
-            {[10, 20, 50].map((n) => (
-              <option key={n} value={n}>{n}</option>
+            {ALL_COLUMNS.map((col) => (
+              <label key={col} className="flex items-center gap-2 rounded px-2 py-1.5 hover:bg-gray-50">
+                <Checkbox
+                  checked={columns.includes(col)}
+                  disabled={col === 'title'}
+                  onCheckedChange={(c) => toggleColumn(col, c === true)}
+                />
+                {t(COLUMN_META[col].labelKey)}
+              </label>
             ))}
-          </select>
-        </div>
+          </PopoverPanel>
+        </Popover>
       </div>
 
+      <AlertsFilterBar
+        filters={filters}
+        sourceOptions={knownSources}
+        onChange={setFilters}
+        searchInputRef={searchInputRef}
+      />
+
+      {/* Offline: showing a saved copy */}
+      {offlineCopy != null && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          <CloudOff className="h-4 w-4 shrink-0" />
+          {t('offline.cachedCopy', { time: new Date(offlineCopy).toLocaleString() })}
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      {selectedIds.size > 0 && !readOnly && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-blue-50/60 px-3 py-2 text-sm">
+          <span className="font-medium">
+            {t('alertsPage.bulk.selected', { count: selectedIds.size })}
+          </span>
+          <span className="mx-1 h-4 w-px bg-gray-300" aria-hidden="true" />
+          {([
+            ['markRead', 'alertsPage.bulk.markRead'],
+            ['markUnread', 'alertsPage.bulk.markUnread'],
+            ['archive', 'alertsPage.bulk.archive'],
+            ['unarchive', 'alertsPage.bulk.unarchive'],
+          ] as Array<[AlertMutation, string]>).map(([action, labelKey]) => (
+            <button
+              key={action}
+              type="button"
+              onClick={() => runBulk(action)}
+              disabled={bulkBusy}
+              className="rounded-md border bg-white px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              {t(labelKey)}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={clearSelection}
+            disabled={bulkBusy}
+            className="ml-auto text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            {t('alertsPage.bulk.clear')}
+          </button>
+        </div>
+      )}
+
+      {/* "select all matching" hint (Gmail-style) */}
+      {pageAllSelected && total > pageKeys.length && !readOnly && (
+        <div className="rounded-md border bg-gray-50 px-3 py-2 text-center text-sm text-gray-700">
+          {allMatchingSelected ? (
+            <>
+              {t('alertsPage.bulk.allMatchingSelected', { count: selectedIds.size })}{' '}
+              <button type="button" onClick={clearSelection} className="font-medium text-blue-600 hover:underline">
+                {t('alertsPage.bulk.clear')}
+              </button>
+            </>
+          ) : (
+            <>
+              {t('alertsPage.bulk.allOnPageSelected', { count: pageKeys.length })}{' '}
+              <button
+                type="button"
+                onClick={selectAllMatching}
+                disabled={selectingAll}
+                className="font-medium text-blue-600 hover:underline disabled:opacity-50"
+              >
+                {selectingAll
+                  ? t('alertsPage.bulk.selectingAll')
+                  : t('alertsPage.bulk.selectAllMatching', { total })}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Table (keeps previous rows during reload) */}
       <div className="relative overflow-hidden rounded-md border">
         {/* Optional top-right spinner while loading after init */}
@@ -368,177 +1254,145 @@ export default function AlertsPage() {
           </div>
         )}
 
-        <table className="min-w-full divide-y">
-          <thead className="bg-gray-50">
-            <tr className="text-left text-sm font-medium text-gray-700">
-              <th className="px-4 py-3 w-[26%]">{t('alertsPage.table.title')}</th>
-              <th className="px-4 py-3 w-[34%]">{t('alertsPage.table.body')}</th>
-              <th className="px-4 py-3 w-[14%]">{t('alertsPage.table.severity')}</th>
-              <th className="px-4 py-3 w-[18%]">{t('alertsPage.table.created')}</th>
-              <th className="px-4 py-3 w-[8%]">{t('alertsPage.table.status')}</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y">
-            {showInitialLoading ? (
-              <tr>
-                <td colSpan={5} className="px-4 py-8 text-center text-sm">
-                  {t('alertsPage.loading')}
-                </td>
-              </tr>
-            ) : data.items.length === 0 ? (
-              <tr>
-                <td colSpan={5} className="px-4 py-8 text-center text-sm">
-                  {t('alertsPage.empty')}
-                </td>
-              </tr>
-            ) : (
-              data.items.map((a) => (
-                <tr
-                  key={a.id}
-                  className="text-sm hover:bg-gray-50 cursor-pointer"
-                  onClick={() => { setSelected(a); setDetailOpen(true); }}
-                  tabIndex={0}
-                  role="button"
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); setSelected(a); setDetailOpen(true); }
-                  }}
-                  aria-label={t('alertsPage.actions.viewAlert')}
-                >
-                  {/* Title */}
-                  <td className="px-4 py-3 align-middle">
-                    <div className="flex items-center gap-2 min-w-0">
-                      {!a.read && <span className="inline-block h-2 w-2 rounded-full bg-blue-600" />}
-                      <span className="truncate font-medium" title={a.title}>{a.title}</span>
-                    </div>
-                    {a.source && (
-                      <div className="mt-0.5 text-xs text-gray-500 truncate" title={a.sourceRef || ''}>
-                        {a.source}{a.sourceRef ? ` · ${a.sourceRef}` : ''}
-                      </div>
-                    )}
-                  </td>
-
-                  {/* Body */}
-                  <td className="px-4 py-3 align-middle">
-                    <div className="min-w-0 truncate text-gray-700" title={a.body || ''}>
-                      {a.body || '—'}
-                    </div>
-                    {a.expiresAt && (
-                      <div className="mt-0.5 text-xs text-gray-500">
-                        {t('alertsPage.row.expires')}:&nbsp;
-                        <time dateTime={a.expiresAt}>{new Date(a.expiresAt).toLocaleString()}</time>
-                      </div>
-                    )}
-                  </td>
-
-                  {/* Severity */}
-                  <td className="px-4 py-3 align-middle">
-                    <div className="flex items-center gap-2">
-                      {a.colorHex ? (
-                        <span
-                          className={basePill}
-                          style={{
-                            color: a.colorHex || undefined,
-                            borderColor: a.colorHex || undefined,
-                            backgroundColor: hexToRgba10(a.colorHex),
-                          }}
+        <div ref={scrollRef} className={infinite ? 'max-h-[70vh] overflow-auto' : undefined}>
+          <table className="min-w-full divide-y">
+            <thead className={`bg-gray-50 ${infinite ? 'sticky top-0 z-10' : ''}`}>
+              <tr className="text-left text-sm font-medium text-gray-700">
+                <th className="px-4 py-3 w-10">
+                  <Checkbox
+                    checked={pageAllSelected ? true : pageSelectedCount > 0 ? 'indeterminate' : false}
+                    onCheckedChange={(c) => togglePage(c === true)}
+                    disabled={pageKeys.length === 0 || readOnly}
+                    aria-label={t('alertsPage.bulk.selectPage')}
+                  />
+                </th>
+                {columns.map((col) => {
+                  const meta = COLUMN_META[col];
+                  const active = !!meta.sortKey && meta.sortKey === sortBy;
+                  return (
+                    <th
+                      key={col}
+                      className={`px-4 py-3 ${meta.className}`}
+                      aria-sort={active ? (sortDir === 'asc' ? 'ascending' : 'descending') : undefined}
+                    >
+                      {meta.sortKey ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleSort(meta.sortKey!)}
+                          className="inline-flex items-center gap-1 hover:text-gray-900"
                         >
-                          {a.severityName ?? t(`severity.${a.severity}`, a.severity)}
-                        </span>
+                          {t(meta.labelKey)}
+                          {active ? (
+                            sortDir === 'asc' ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />
+                          ) : (
+                            <ArrowUpDown className="h-3.5 w-3.5 text-gray-400" />
+                          )}
+                        </button>
                       ) : (
-                        <span className={fallbackPill(a.severity)}>
-                          {a.severityName ?? t(`severity.${a.severity}`, a.severity)}
-                        </span>
+                        t(meta.labelKey)
                       )}
-                    </div>
-                  </td>
-
-                  {/* Created */}
-                  <td className="px-4 py-3 align-middle text-gray-600">
-                    <div>
-                      <time dateTime={a.createdAt} title={new Date(a.createdAt).toLocaleString()}>
-                        {new Date(a.createdAt).toLocaleString()}
-                      </time>
-                    </div>
-                    {(a.readAt || a.archivedAt) && (
-                      <div className="mt-1 space-y-1">
-                        {a.readAt && (
-                          <div className="text-xs text-gray-500">
-                            {t('alertsPage.row.readAt')}:&nbsp;
-                            <time dateTime={a.readAt!}>{new Date(a.readAt!).toLocaleString()}</time>
-                          </div>
-                        )}
-                        {a.archivedAt && (
-                          <div className="text-xs text-gray-500">
-                            {t('alertsPage.row.archivedAt')}:&nbsp;
-                            <time dateTime={a.archivedAt!}>{new Date(a.archivedAt!).toLocaleString()}</time>
-                          </div>
-                        )}
-                      </div>
-                    )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody ref={tbodyRef} className="divide-y">
+              {showInitialLoading ? (
+                <tr>
+                  <td colSpan={columns.length + 1} className="px-4 py-8 text-center text-sm">
+                    {t('alertsPage.loading')}
                   </td>
-
-                  {/* Status */}
-                  <td className="px-4 py-3 align-middle">
-                    {a.archived
-                      ? t('alertsPage.row.archived')
-                      : a.read
-                      ? t('alertsPage.row.read')
-                      : t('alertsPage.row.unread')}
+                </tr>
+              ) : rows.length === 0 ? (
+                <tr>
+                  <td colSpan={columns.length + 1} className="px-4 py-8 text-center text-sm">
+                    {t('alertsPage.empty')}
                   </td>
                 </tr>
-              ))
-            )}
-          </tbody>
-        </table>
+              ) : infinite ? (
+                <>
+                  {spacer(padTop)}
+                  {virtualItems.map((v) => renderRow(visibleRows[v.index], v.index))}
+                  {spacer(padBottom)}
+                </>
+              ) : (
+                visibleRows.map((r) => renderRow(r))
+              )}
+            </tbody>
+          </table>
+        </div>
       </div>
 
       {/* Pager */}
-      <div className="flex items-center justify-between">
-        <p className="text-sm text-gray-600" aria-live="polite">
-          {t('alertsPage.pager.summary', {
-            from: data.total === 0 ? 0 : (data.page - 1) * data.pageSize + 1,
-            to: Math.min(data.page * data.pageSize, data.total),
-            total: data.total,
-          })}
-        </p>
-        <div className="flex items-center gap-2">
-          <button
-            type="button"
-            className="rounded-md border px-3 py-1 text-sm disabled:opacity-50"
-            onClick={() => setPage((p) => Math.max(1, p - 1))}
-            disabled={page <= 1 || loading}
-          >
-            {t('alertsPage.pager.prev')}
-          </button>
-          <span className="text-sm">
-            {t('alertsPage.pager.pageXofY', {
-              x: page,
-              y: Math.max(1, Math.ceil(data.total / pageSize)),
+      {infinite ? (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600" aria-live="polite">
+            {t('alertsPage.infinite.summary', { count: rows.length, total })}
+          </p>
+          {data.nextCursor ? (
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-sm disabled:opacity-50"
+              onClick={loadMore}
+              disabled={loadingMore}
+            >
+              {loadingMore ? t('alertsPage.infinite.loadingMore') : t('alertsPage.infinite.loadMore')}
+            </button>
+          ) : (
+            initialized && rows.length > 0 && (
+              <span className="text-sm text-gray-500">{t('alertsPage.infinite.end')}</span>
+            )
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600" aria-live="polite">
+            {t('alertsPage.pager.summary', {
+              from: total === 0 ? 0 : (data.page - 1) * data.pageSize + 1,
+              to: Math.min((data.page - 1) * data.pageSize + rows.length, total),
+              total,
             })}
-          </span>
-          <button
-            type="button"
-            className="rounded-md border px-3 py-1 text-sm disabled:opacity-50"
-            onClick={() =>
-              setPage((p) =>
-                Math.min(Math.ceil(Math.max(1, data.total) / pageSize), p + 1)
-              )
-            }
-            disabled={page >= Math.ceil(Math.max(1, data.total) / pageSize) || loading}
-          >
-            {t('alertsPage.pager.next')}
-          </button>
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-sm disabled:opacity-50"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1 || loading}
+            >
+              {t('alertsPage.pager.prev')}
+            </button>
+            <span className="text-sm">
+              {t('alertsPage.pager.pageXofY', {
+                x: page,
+                y: Math.max(1, Math.ceil(total / pageSize)),
+              })}
+            </span>
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-sm disabled:opacity-50"
+              onClick={() =>
+                setPage((p) =>
+                  Math.min(Math.ceil(Math.max(1, total) / pageSize), p + 1)
+                )
+              }
+              disabled={page >= Math.ceil(Math.max(1, total) / pageSize) || loading}
+            >
+              {t('alertsPage.pager.next')}
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Detail modal */}
       <AlertDetailModal
         isOpen={detailOpen}
         alert={selected}
-        onClose={() => setDetailOpen(false)}
-        onMarkedRead={onMarkedRead}
-        onMarkedUnread={onMarkedUnread}
+        onClose={closeDetail}
+        readOnly={readOnly}
       />
+
+      <ShortcutsDialog isOpen={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
     </div>
   );
 }
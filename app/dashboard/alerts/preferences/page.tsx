@@ -0,0 +1,477 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { ArrowLeft, Volume2 } from 'lucide-react';
+import { useApi } from '@/utils/api';
+import { useAlertsApi } from '@/utils/alertsApi';
+import { useAlerts } from '@/context/AlertsContext';
+import { useAlertPreferences } from '@/context/AlertPreferencesContext';
+import {
+  AlertNotificationPrefs, ChannelSet, NotifyChannel, CHANNELS, SEVERITIES, DEFAULT_NOTIFICATION_PREFS,
+} from '@/utils/alertNotificationPrefs';
+import { AlertRetention, DEFAULT_RETENTION, RETENTION_MAX_DAYS } from '@/utils/alertRetention';
+import { AlertCue, ALERT_CUES, previewAlertCue } from '@/utils/notificationSound';
+import {
+  notificationPermission, requestNotificationPermission, registerAlertsServiceWorker,
+  webPushSupported, getPushSubscription, subscribeToPush, unsubscribeFromPush,
+} from '@/utils/browserNotifications';
+import { Checkbox } from '@/components/ui/checkbox';
+
+const ALL_ON: ChannelSet = { toast: true, sound: true, browser: true };
+
+const card = 'rounded-md border bg-white p-4 space-y-4';
+
+function ChannelRow({
+  label,
+  value,
+  onChange,
+  extra,
+}: {
+  label: React.ReactNode;
+  value: ChannelSet;
+  onChange: (channel: NotifyChannel, on: boolean) => void;
+  extra?: React.ReactNode;
+}) {
+  const { t } = useTranslation('common');
+  const silent = CHANNELS.every((c) => !value[c]);
+  return (
+    <tr className="text-sm">
+      <td className="py-2 pr-4">
+        <div className="font-medium">{label}</div>
+        {silent && <div className="text-xs text-gray-500">{t('alertPrefs.silent')}</div>}
+      </td>
+      {CHANNELS.map((c) => (
+        <td key={c} className="px-4 py-2 text-center">
+          <Checkbox
+            checked={value[c]}
+            onCheckedChange={(v) => onChange(c, v === true)}
+            aria-label={t(`alertPrefs.channel.${c}`)}
+          />
+        </td>
+      ))}
+      <td className="py-2 pl-2 text-right">{extra}</td>
+    </tr>
+  );
+}
+
+/** "[x] Archive … after [ 30 ] days" — unchecked means the rule is off (null) */
+function DaysRule({
+  label,
+  value,
+  fallback,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  fallback: number;
+  onChange: (days: number | null) => void;
+}) {
+  const { t } = useTranslation('common');
+  const on = value != null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <label className="flex items-center gap-2">
+        <Checkbox checked={on} onCheckedChange={(v) => onChange(v === true ? fallback : null)} />
+        {label}
+      </label>
+      <input
+        type="number"
+        min={1}
+        max={RETENTION_MAX_DAYS}
+        className="w-20 rounded-md border px-2 py-1 text-sm disabled:opacity-50"
+        value={value ?? fallback}
+        disabled={!on}
+        aria-label={label}
+        onChange={(e) => {
+          const n = parseInt(e.target.value, 10);
+          if (Number.isFinite(n)) onChange(Math.min(RETENTION_MAX_DAYS, Math.max(1, n)));
+        }}
+      />
+      <span>{t('alertPrefs.retention.days')}</span>
+    </div>
+  );
+}
+
+/** Which cue a severity's sound channel plays, with a button to hear it */
+function CuePicker({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: AlertCue;
+  disabled: boolean;
+  onChange: (cue: AlertCue) => void;
+}) {
+  const { t } = useTranslation('common');
+  return (
+    <div className="flex items-center justify-end gap-1">
+      <select
+        className="rounded-md border px-2 py-1 text-sm disabled:opacity-50"
+        value={value}
+        disabled={disabled}
+        aria-label={t('alertPrefs.cue.label')}
+        onChange={(e) => onChange(e.target.value as AlertCue)}
+      >
+        {ALERT_CUES.map((cue) => (
+          <option key={cue} value={cue}>{t(`alertPrefs.cue.${cue}`)}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => previewAlertCue(value)}
+        disabled={disabled || value === 'none'}
+        className="rounded-md border p-1.5 hover:bg-gray-50 disabled:opacity-50"
+        title={t('alertPrefs.testSound')}
+        aria-label={t('alertPrefs.testSound')}
+      >
+        <Volume2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+function ChannelHead({ first }: { first: string }) {
+  const { t } = useTranslation('common');
+  return (
+    <thead>
+      <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+        <th className="py-2 pr-4 font-medium">{first}</th>
+        {CHANNELS.map((c) => (
+          <th key={c} className="px-4 py-2 text-center font-medium">{t(`alertPrefs.channel.${c}`)}</th>
+        ))}
+        <th />
+      </tr>
+    </thead>
+  );
+}
+
+export default function AlertPreferencesPage() {
+  const { t } = useTranslation('common');
+  const api = useApi();
+  const alertsApi = useAlertsApi();
+  const { byId } = useAlerts();
+  const { prefs, loaded, save, retention, saveRetention } = useAlertPreferences();
+
+  const [draft, setDraft] = React.useState<AlertNotificationPrefs>(prefs);
+  const [retentionDraft, setRetentionDraft] = React.useState<AlertRetention>(retention);
+  const [saving, setSaving] = React.useState(false);
+  const [permission, setPermission] = React.useState<ReturnType<typeof notificationPermission>>('default');
+
+  // start from the saved preferences once they are in
+  React.useEffect(() => { setDraft(prefs); }, [prefs]);
+  React.useEffect(() => { setRetentionDraft(retention); }, [retention]);
+  React.useEffect(() => { setPermission(notificationPermission()); }, []);
+
+  // Web Push reaches this device even with the dashboard closed
+  const [pushSupported, setPushSupported] = React.useState(false);
+  const [pushOn, setPushOn] = React.useState(false);
+  const [pushBusy, setPushBusy] = React.useState(false);
+  React.useEffect(() => {
+    setPushSupported(webPushSupported());
+    getPushSubscription().then((sub) => setPushOn(!!sub)).catch(() => {});
+  }, []);
+
+  const [remoteSources, setRemoteSources] = React.useState<string[]>([]);
+  React.useEffect(() => {
+    let cancelled = false;
+    alertsApi.sources()
+      .then((list) => { if (!cancelled) setRemoteSources(list); })
+      .catch(() => { /* endpoint is optional */ });
+    return () => { cancelled = true; };
+  }, [alertsApi]);
+
+  const sources = React.useMemo(() => {
+    const set = new Set<string>([...remoteSources, ...Object.keys(draft.sources)]);
+    Object.values(byId).forEach((a) => { if (a.source) set.add(a.source); });
+    return Array.from(set).sort((a, b) => a.localeCompare(b));
+  }, [remoteSources, draft.sources, byId]);
+
+  const prefsDirty = JSON.stringify(draft) !== JSON.stringify(prefs);
+  const retentionDirty = JSON.stringify(retentionDraft) !== JSON.stringify(retention);
+  const dirty = prefsDirty || retentionDirty;
+
+  const setSeverityChannel = (sev: keyof AlertNotificationPrefs['severity'], c: NotifyChannel, on: boolean) =>
+    setDraft((d) => ({ ...d, severity: { ...d.severity, [sev]: { ...d.severity[sev], [c]: on } } }));
+
+  const setSeverityCue = (sev: keyof AlertNotificationPrefs['sounds'], cue: AlertCue) =>
+    setDraft((d) => ({ ...d, sounds: { ...d.sounds, [sev]: cue } }));
+
+  const setSourceChannel = (src: string, c: NotifyChannel, on: boolean) =>
+    setDraft((d) => {
+      const next = { ...(d.sources[src] ?? ALL_ON), [c]: on };
+      const sources = { ...d.sources };
+      // an all-on override is the same as no override
+      if (CHANNELS.every((ch) => next[ch])) delete sources[src];
+      else sources[src] = next;
+      return { ...d, sources };
+    });
+
+  const resetSource = (src: string) =>
+    setDraft((d) => {
+      const sources = { ...d.sources };
+      delete sources[src];
+      return { ...d, sources };
+    });
+
+  const setRetention = (patch: Partial<AlertRetention>) => setRetentionDraft((r) => ({ ...r, ...patch }));
+
+  const setQuiet = (patch: Partial<AlertNotificationPrefs['quietHours']>) =>
+    setDraft((d) => ({ ...d, quietHours: { ...d.quietHours, ...patch } }));
+
+  const askPermission = async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') registerAlertsServiceWorker();
+    if (result === 'denied') toast.warning(t('alertPrefs.browser.deniedToast'));
+  };
+
+  const togglePush = async (on: boolean) => {
+    setPushBusy(true);
+    try {
+      const ok = on ? await subscribeToPush(api) : await unsubscribeFromPush(api);
+      setPermission(notificationPermission());
+      if (ok) {
+        setPushOn(on);
+        toast.success(t(on ? 'alertPrefs.push.enabled' : 'alertPrefs.push.disabled'));
+      } else {
+        toast.error(t('alertPrefs.push.error'));
+      }
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const onSave = async () => {
+    setSaving(true);
+    try {
+      const results = await Promise.all([
+        prefsDirty ? save(draft) : true,
+        retentionDirty ? saveRetention(retentionDraft) : true,
+      ]);
+      if (results.every(Boolean)) toast.success(t('alertPrefs.saved'));
+      else toast.error(t('alertPrefs.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const wantsBrowser =
+    SEVERITIES.some((s) => draft.severity[s].browser) && permission !== 'granted';
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <Link href="/dashboard/alerts" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="h-4 w-4" />
+            {t('alertPrefs.back')}
+          </Link>
+          <h1 className="mt-1 text-2xl font-semibold">{t('alertPrefs.title')}</h1>
+          <p className="text-sm text-gray-600">{t('alertPrefs.subtitle')}</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => { setDraft(DEFAULT_NOTIFICATION_PREFS); setRetentionDraft(DEFAULT_RETENTION); }}
+            className="px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition"
+          >
+            {t('alertPrefs.resetDefaults')}
+          </button>
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={!dirty || saving || !loaded}
+            className="px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saving ? t('alertPrefs.saving') : t('alertPrefs.save')}
+          </button>
+        </div>
+      </div>
+
+      {/* By severity */}
+      <section className={card}>
+        <div>
+          <h2 className="font-semibold">{t('alertPrefs.bySeverity.title')}</h2>
+          <p className="text-sm text-gray-600">{t('alertPrefs.bySeverity.help')}</p>
+        </div>
+        <table className="w-full">
+          <ChannelHead first={t('alertsPage.table.severity')} />
+          <tbody className="divide-y">
+            {SEVERITIES.map((sev) => (
+              <ChannelRow
+                key={sev}
+                label={t(`severity.${sev}`)}
+                value={draft.severity[sev]}
+                onChange={(c, on) => setSeverityChannel(sev, c, on)}
+                extra={
+                  <CuePicker
+                    value={draft.sounds[sev]}
+                    disabled={!draft.severity[sev].sound}
+                    onChange={(cue) => setSeverityCue(sev, cue)}
+                  />
+                }
+              />
+            ))}
+          </tbody>
+        </table>
+
+        {wantsBrowser && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            <span>
+              {permission === 'unsupported'
+                ? t('alertPrefs.browser.unsupported')
+                : permission === 'denied'
+                ? t('alertPrefs.browser.denied')
+                : t('alertPrefs.browser.needsPermission')}
+            </span>
+            {permission === 'default' && (
+              <button
+                type="button"
+                onClick={askPermission}
+                className="rounded-md border border-amber-300 bg-white px-2 py-1 text-sm hover:bg-amber-100"
+              >
+                {t('alertPrefs.browser.allow')}
+              </button>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* Push */}
+      <section className={card}>
+        <div>
+          <h2 className="font-semibold">{t('alertPrefs.push.title')}</h2>
+          <p className="text-sm text-gray-600">{t('alertPrefs.push.help')}</p>
+        </div>
+        {pushSupported ? (
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={pushOn}
+              disabled={pushBusy || permission === 'denied'}
+              onCheckedChange={(v) => togglePush(v === true)}
+            />
+            {t('alertPrefs.push.enable')}
+          </label>
+        ) : (
+          <p className="text-sm text-gray-500">{t('alertPrefs.push.unsupported')}</p>
+        )}
+      </section>
+
+      {/* By source */}
+      <section className={card}>
+        <div>
+          <h2 className="font-semibold">{t('alertPrefs.bySource.title')}</h2>
+          <p className="text-sm text-gray-600">{t('alertPrefs.bySource.help')}</p>
+        </div>
+        {sources.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('alertPrefs.bySource.empty')}</p>
+        ) : (
+          <table className="w-full">
+            <ChannelHead first={t('alertsPage.table.source')} />
+            <tbody className="divide-y">
+              {sources.map((src) => (
+                <ChannelRow
+                  key={src}
+                  label={src}
+                  value={draft.sources[src] ?? ALL_ON}
+                  onChange={(c, on) => setSourceChannel(src, c, on)}
+                  extra={
+                    draft.sources[src] && (
+                      <button
+                        type="button"
+                        onClick={() => resetSource(src)}
+                        className="text-xs text-gray-600 hover:text-gray-900"
+                      >
+                        {t('alertPrefs.bySource.reset')}
+                      </button>
+                    )
+                  }
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Quiet hours */}
+      <section className={card}>
+        <div>
+          <h2 className="font-semibold">{t('alertPrefs.quiet.title')}</h2>
+          <p className="text-sm text-gray-600">{t('alertPrefs.quiet.help')}</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={draft.quietHours.enabled}
+            onCheckedChange={(v) => setQuiet({ enabled: v === true })}
+          />
+          {t('alertPrefs.quiet.enable')}
+        </label>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            {t('alertPrefs.quiet.from')}
+            <input
+              type="time"
+              className="rounded-md border px-2 py-1 text-sm"
+              value={draft.quietHours.start}
+              disabled={!draft.quietHours.enabled}
+              onChange={(e) => e.target.value && setQuiet({ start: e.target.value })}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            {t('alertPrefs.quiet.to')}
+            <input
+              type="time"
+              className="rounded-md border px-2 py-1 text-sm"
+              value={draft.quietHours.end}
+              disabled={!draft.quietHours.enabled}
+              onChange={(e) => e.target.value && setQuiet({ end: e.target.value })}
+            />
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={draft.quietHours.allowCritical}
+            disabled={!draft.quietHours.enabled}
+            onCheckedChange={(v) => setQuiet({ allowCritical: v === true })}
+          />
+          {t('alertPrefs.quiet.allowCritical')}
+        </label>
+      </section>
+
+      {/* Cleanup */}
+      <section className={card}>
+        <div>
+          <h2 className="font-semibold">{t('alertPrefs.retention.title')}</h2>
+          <p className="text-sm text-gray-600">{t('alertPrefs.retention.help')}</p>
+        </div>
+        <DaysRule
+          label={t('alertPrefs.retention.archiveRead')}
+          value={retentionDraft.archiveReadAfterDays}
+          fallback={7}
+          onChange={(n) => setRetention({ archiveReadAfterDays: n })}
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={retentionDraft.archiveOnExpiry}
+            onCheckedChange={(v) => setRetention({ archiveOnExpiry: v === true })}
+          />
+          {t('alertPrefs.retention.archiveExpired')}
+        </label>
+        <DaysRule
+          label={t('alertPrefs.retention.purgeArchived')}
+          value={retentionDraft.purgeArchivedAfterDays}
+          fallback={30}
+          onChange={(n) => setRetention({ purgeArchivedAfterDays: n })}
+        />
+        {retentionDraft.purgeArchivedAfterDays != null && (
+          <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">{t('alertPrefs.retention.purgeWarning')}</p>
+        )}
+      </section>
+    </div>
+  );
+}
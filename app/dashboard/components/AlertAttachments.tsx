@@ -0,0 +1,67 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useTranslation } from 'react-i18next';
+import { FileText, Paperclip } from 'lucide-react';
+import type { AlertAttachment } from '../types/alerts';
+import {
+  attachmentKind, attachmentName, cloudinaryTransform, formatBytes, isCloudinaryUrl, pdfThumbnail,
+} from '@/utils/alertAttachments';
+
+/** Cloudinary images and PDFs attached to an alert; each opens in a new tab */
+export default function AlertAttachments({ items }: { items: AlertAttachment[] }) {
+  const { t } = useTranslation('common');
+  const safe = items.filter((a) => isCloudinaryUrl(a.url));
+  if (safe.length === 0) return null;
+
+  return (
+    <section className="mt-5">
+      <h3 className="mb-2 flex items-center gap-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+        <Paperclip className="h-3.5 w-3.5" />
+        {t('alertModal.attachments', { count: safe.length })}
+      </h3>
+      <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {safe.map((a) => {
+          const kind = attachmentKind(a);
+          const name = attachmentName(a);
+          const size = formatBytes(a.bytes);
+          // Cloudinary resizes for us, so skip the Next image optimizer
+          const thumb =
+            kind === 'image' ? cloudinaryTransform(a.url, 'w_480,c_limit') ?? a.url
+            : kind === 'pdf' ? pdfThumbnail(a.url)
+            : null;
+
+          return (
+            <li key={a.url}>
+              <a
+                href={a.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="group block overflow-hidden rounded-lg border bg-white hover:border-blue-300 hover:shadow-sm"
+                title={t(kind === 'pdf' ? 'alertModal.openPdf' : 'alertModal.openAttachment', { name })}
+              >
+                <div className="relative grid aspect-[4/3] place-items-center bg-gray-50">
+                  {thumb ? (
+                    <Image src={thumb} alt={name} fill unoptimized sizes="160px" className="object-cover" />
+                  ) : (
+                    <FileText className="h-8 w-8 text-gray-400" />
+                  )}
+                  {kind === 'pdf' && (
+                    <span className="absolute left-1.5 top-1.5 rounded bg-red-600 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                      PDF
+                    </span>
+                  )}
+                </div>
+                <div className="px-2 py-1.5">
+                  <div className="truncate text-xs font-medium text-gray-800 group-hover:text-blue-700">{name}</div>
+                  {size && <div className="text-[10px] text-gray-500">{size}</div>}
+                </div>
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useTranslation } from 'react-i18next';
+import type { AlertAttachment, Severity } from '../types/alerts';
+import AlertMarkdown from './AlertMarkdown';
+import AlertAttachments from './AlertAttachments';
+
+// Logos used in LoginForm to keep visual consistency
+import verificarImg from '@/images/logo_new.png';
+import myb4yImg from '@/images/logo_transparent.png';
+
+/** Everything the detail card shows about an alert */
+export type AlertDetailFields = {
+  title: string;
+  body: string;
+  severityCode: string;
+  severityName?: string;
+  colorHex?: string | null;
+  createdAt: string;
+  source?: string | null;
+  sourceRef?: string | null;
+  readAt?: string | null;
+  archivedAt?: string | null;
+  snoozedUntil?: string | null;
+  expiresAt?: string | null;
+  attachments?: AlertAttachment[];
+  acknowledgedAt?: string | null;
+  acknowledgedBy?: string | null;
+  acknowledgementComment?: string | null;
+};
+
+interface Props {
+  alert: AlertDetailFields;
+  loading?: boolean;
+  /** e.g. headlessui's DialogTitle inside the modal */
+  titleAs?: React.ElementType;
+  /** top-right slot (the modal's close button) */
+  headerAction?: React.ReactNode;
+  /** action bar under the timestamps */
+  actions?: React.ReactNode;
+  /** an in-app link in the body was followed */
+  onNavigate?: () => void;
+}
+
+function hexToRgba10(hex?: string | null): string | undefined {
+  if (!hex || !/^#([0-9A-Fa-f]{6})$/.test(hex)) return undefined;
+  return `${hex}1A`;
+}
+const basePill =
+  'inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium border';
+function fallbackPill(code?: string) {
+  const sev = (code ?? 'info') as Severity;
+  return sev === 'critical'
+    ? 'inline-flex items-center rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800'
+    : sev === 'warning'
+    ? 'inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800'
+    : 'inline-flex items-center rounded-full bg-sky-100 px-2 py-0.5 text-xs font-medium text-sky-800';
+}
+
+export const cardSurface =
+  'bg-white bg-opacity-90 backdrop-blur-md rounded-2xl shadow-2xl';
+
+/**
+ * The alert card shown by AlertDetailModal. Kept separate so the composer's
+ * preview renders exactly what recipients will see.
+ */
+export default function AlertDetailView({
+  alert,
+  loading = false,
+  titleAs: TitleTag = 'h2',
+  headerAction,
+  actions,
+  onNavigate,
+}: Props) {
+  const { t } = useTranslation('common');
+  const {
+    title, body, severityCode, severityName, colorHex, createdAt,
+    source, sourceRef, readAt, archivedAt, snoozedUntil, expiresAt, attachments,
+    acknowledgedAt, acknowledgedBy, acknowledgementComment,
+  } = alert;
+  const severityLabel = severityName ?? t(`severity.${severityCode as Severity}`, String(severityCode));
+
+  return (
+    <>
+      {/* Header (consistent with LoginForm) */}
+      <div className="flex items-center justify-between px-8 py-6 border-b border-gray-200">
+        <Image src={verificarImg} alt="Logo" width={40} height={40} className="rounded-full shadow" />
+        <TitleTag className="flex-grow text-center text-2xl font-semibold text-[var(--color-text_dark)]">
+          {title}
+        </TitleTag>
+        {headerAction ?? <span className="w-10" />}
+      </div>
+
+      {/* Body */}
+      <div className="px-8 py-6">
+        {/* meta row */}
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {colorHex ? (
+            <span
+              className={basePill}
+              style={{
+                color: colorHex || undefined,
+                borderColor: colorHex || undefined,
+                backgroundColor: hexToRgba10(colorHex),
+              }}
+            >
+              {severityLabel}
+            </span>
+          ) : (
+            <span className={fallbackPill(severityCode)}>{severityLabel}</span>
+          )}
+
+          {createdAt && (
+            <>
+              <span className="text-gray-400">•</span>
+              <time
+                className="text-gray-600"
+                dateTime={createdAt}
+                title={new Date(createdAt).toLocaleString()}
+              >
+                {new Date(createdAt).toLocaleString()}
+              </time>
+            </>
+          )}
+
+          {source && (
+            <>
+              <span className="text-gray-400">•</span>
+              <span className="text-gray-600">
+                {source}{sourceRef ? ` · ${sourceRef}` : ''}
+              </span>
+            </>
+          )}
+        </div>
+
+        {/* animated body/content */}
+        <div className="mt-4">
+          <AnimatePresence initial={false} mode="wait">
+            {loading ? (
+              <motion.div
+                key="loading"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="animate-pulse space-y-3"
+              >
+                <div className="h-3 w-3/4 rounded bg-gray-200" />
+                <div className="h-3 w-full rounded bg-gray-200" />
+                <div className="h-3 w-5/6 rounded bg-gray-200" />
+              </motion.div>
+            ) : body ? (
+              <motion.div
+                key="body"
+                initial={{ y: 8, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                exit={{ y: -8, opacity: 0 }}
+                className="break-words text-sm text-gray-800"
+              >
+                <AlertMarkdown onNavigate={onNavigate}>{body}</AlertMarkdown>
+              </motion.div>
+            ) : (
+              <motion.p
+                key="empty"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="text-sm text-gray-500"
+              >
+                {t('alertModal.noBody')}
+              </motion.p>
+            )}
+          </AnimatePresence>
+        </div>
+
+        {!loading && attachments && attachments.length > 0 && <AlertAttachments items={attachments} />}
+
+        {/* timestamps */}
+        <div className="mt-5 grid grid-cols-1 gap-2 text-xs text-gray-600 sm:grid-cols-2">
+          {readAt && (
+            <div>
+              {t('alertModal.readAt')}:&nbsp;
+              <time dateTime={readAt}>{new Date(readAt).toLocaleString()}</time>
+            </div>
+          )}
+          {archivedAt && (
+            <div>
+              {t('alertModal.archivedAt')}:&nbsp;
+              <time dateTime={archivedAt}>{new Date(archivedAt).toLocaleString()}</time>
+            </div>
+          )}
+          {snoozedUntil && (
+            <div className="sm:col-span-2 text-indigo-700">
+              {t('snooze.until')}:&nbsp;
+              <time dateTime={snoozedUntil}>{new Date(snoozedUntil).toLocaleString()}</time>
+            </div>
+          )}
+          {expiresAt && (
+            <div className="sm:col-span-2">
+              {t('alertModal.expiresAt')}:&nbsp;
+              <time dateTime={expiresAt}>{new Date(expiresAt).toLocaleString()}</time>
+            </div>
+          )}
+        </div>
+
+        {acknowledgedAt && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
+            <div>
+              {acknowledgedBy
+                ? t('ack.byOn', { name: acknowledgedBy, date: new Date(acknowledgedAt).toLocaleString() })
+                : t('ack.on', { date: new Date(acknowledgedAt).toLocaleString() })}
+            </div>
+            {acknowledgementComment && (
+              <blockquote className="mt-1 whitespace-pre-wrap border-l-2 border-emerald-300 pl-2 text-emerald-800">
+                {acknowledgementComment}
+              </blockquote>
+            )}
+          </div>
+        )}
+
+        {actions && <div className="mt-6">{actions}</div>}
+      </div>
+
+      {/* Brand Footer */}
+      <div className="px-8 py-4 bg-[var(--color-text_dark)] text-center text-[var(--color-flag_white)]">
+        {t('footer.developedWithLove')}
+        <div className="mt-2 flex justify-center">
+          <a href="https://app.myb4y.com" target="_blank" rel="noopener noreferrer" aria-label="MYB4Y">
+            <Image src={myb4yImg} alt="MYB4Y" width={30} height={30} />
+          </a>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import {
+  alertMarkdownSchema, isInternalHref, rehypeDemoteHeadings, rehypeInternalLinks,
+} from '@/utils/alertMarkdown';
+
+interface Props {
+  children: string;
+  /** called before an in-app link navigates (e.g. to close the modal) */
+  onNavigate?: () => void;
+  className?: string;
+}
+
+const linkClass = 'text-blue-700 underline underline-offset-2 hover:text-blue-900';
+
+/**
+ * Alert body markdown. Raw HTML is never parsed and the output is sanitized
+ * against a small allow-list; `/dashboard/...` links stay inside the app.
+ */
+export default function AlertMarkdown({ children, onNavigate, className }: Props) {
+  const components = React.useMemo<Components>(() => ({
+    a: ({ href, children: text, title }) => {
+      if (isInternalHref(href)) {
+        return (
+          <Link href={href!} title={title} onClick={onNavigate} className={linkClass}>
+            {text}
+          </Link>
+        );
+      }
+      return (
+        <a href={href} title={title} target="_blank" rel="noopener noreferrer nofollow" className={linkClass}>
+          {text}
+        </a>
+      );
+    },
+    p: ({ children: text }) => <p className="my-2 first:mt-0 last:mb-0">{text}</p>,
+    ul: ({ children: items }) => <ul className="my-2 list-disc space-y-1 pl-5">{items}</ul>,
+    ol: ({ children: items }) => <ol className="my-2 list-decimal space-y-1 pl-5">{items}</ol>,
+    h3: ({ children: text }) => <h3 className="mt-3 mb-1 text-base font-semibold">{text}</h3>,
+    h4: ({ children: text }) => <h4 className="mt-3 mb-1 font-semibold">{text}</h4>,
+    blockquote: ({ children: text }) => (
+      <blockquote className="my-2 border-l-4 border-gray-300 pl-3 text-gray-700">{text}</blockquote>
+    ),
+    code: ({ children: text, className: lang }) => (
+      <code className={`rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.85em] ${lang ?? ''}`}>{text}</code>
+    ),
+    pre: ({ children: block }) => (
+      <pre className="my-2 overflow-x-auto rounded-md bg-gray-100 p-3 [&>code]:bg-transparent [&>code]:p-0">{block}</pre>
+    ),
+    table: ({ children: rows }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="min-w-full border text-xs">{rows}</table>
+      </div>
+    ),
+    th: ({ children: text, style }) => <th style={style} className="border bg-gray-50 px-2 py-1 text-left font-medium">{text}</th>,
+    td: ({ children: text, style }) => <td style={style} className="border px-2 py-1">{text}</td>,
+  }), [onNavigate]);
+
+  return (
+    <div className={className}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeDemoteHeadings, rehypeInternalLinks, [rehypeSanitize, alertMarkdownSchema]]}
+        components={components}
+        skipHtml
+        disallowedElements={['img']}
+        unwrapDisallowed
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
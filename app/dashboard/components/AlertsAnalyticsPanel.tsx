@@ -0,0 +1,272 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useTranslation } from 'react-i18next';
+import {
+  BarChart, Bar, CartesianGrid, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import { useAlertsApi } from '@/utils/alertsApi';
+import { EXPIRING_SOON_HOURS } from '@/utils/alertsFilters';
+import { alertDeepLink } from '@/utils/browserNotifications';
+import {
+  AnalyticsPreset, AnalyticsRange, ANALYTICS_PRESETS, formatDuration, meanTimeToRead, presetRange,
+  rangeBounds, severitySeries, topSources,
+} from '@/utils/alertsAnalytics';
+import type { AlertItem, Severity } from '../types/alerts';
+
+const PAGE_SIZE = 100;
+/** stop paging past this many alerts; the panel says the numbers are partial */
+const MAX_ITEMS = 5000;
+const EXPIRING_SHOWN = 5;
+
+// same palette as the table's fallback pills
+const SEVERITY_HEX: Record<Severity, string> = {
+  info: '#0369A1',
+  warning: '#B45309',
+  critical: '#B91C1C',
+};
+const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'critical'];
+
+const panel = 'rounded-2xl bg-white shadow-sm ring-1 ring-black/5 p-5';
+
+function Metric({ label, value, sublabel }: { label: string; value: React.ReactNode; sublabel?: string }) {
+  return (
+    <div className="rounded-xl bg-gray-50 p-4">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="mt-1 text-2xl font-semibold text-gray-900">{value}</div>
+      {sublabel && <div className="text-xs text-gray-500">{sublabel}</div>}
+    </div>
+  );
+}
+
+export default function AlertsAnalyticsPanel() {
+  const { t, i18n } = useTranslation('common');
+  const alertsApi = useAlertsApi();
+
+  const [range, setRange] = React.useState<AnalyticsRange>(() => presetRange('30d'));
+  const [items, setItems] = React.useState<AlertItem[]>([]);
+  const [truncated, setTruncated] = React.useState(false);
+  const [expiring, setExpiring] = React.useState<{ items: AlertItem[]; total: number }>({ items: [], total: 0 });
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState(false);
+
+  // only the latest request may write state (the range can change mid-fetch)
+  const fetchIdRef = React.useRef(0);
+
+  React.useEffect(() => {
+    if (!range.from || !range.to || range.from > range.to) return;
+    const fetchId = ++fetchIdRef.current;
+    const bounds = rangeBounds(range);
+
+    const loadRange = async () => {
+      const all: AlertItem[] = [];
+      for (let page = 1; ; page++) {
+        const { items: batch, total } = await alertsApi.list({ page, pageSize: PAGE_SIZE, status: 'all', ...bounds });
+        all.push(...batch);
+        if (batch.length < PAGE_SIZE || all.length >= total) return { all, partial: false };
+        if (all.length >= MAX_ITEMS) return { all, partial: true };
+      }
+    };
+
+    const loadExpiring = async () => {
+      const now = Date.now();
+      const { items: list, total } = await alertsApi.list({
+        page: 1,
+        pageSize: EXPIRING_SHOWN,
+        status: 'active',
+        expiresAfter: new Date(now).toISOString(),
+        expiresBefore: new Date(now + EXPIRING_SOON_HOURS * 3_600_000).toISOString(),
+      });
+      // soonest first, whatever order the backend used
+      list.sort((a, b) => new Date(a.expiresAt ?? 0).getTime() - new Date(b.expiresAt ?? 0).getTime());
+      return { items: list, total };
+    };
+
+    setLoading(true);
+    setError(false);
+    Promise.all([loadRange(), loadExpiring()])
+      .then(([{ all, partial }, exp]) => {
+        if (fetchId !== fetchIdRef.current) return;
+        setItems(all);
+        setTruncated(partial);
+        setExpiring(exp);
+      })
+      .catch(() => {
+        if (fetchId === fetchIdRef.current) setError(true);
+      })
+      .finally(() => {
+        if (fetchId === fetchIdRef.current) setLoading(false);
+      });
+  }, [alertsApi, range]);
+
+  const series = React.useMemo(() => severitySeries(items, range, i18n.language), [items, range, i18n.language]);
+  const mttr = React.useMemo(() => meanTimeToRead(items), [items]);
+  const sources = React.useMemo(() => topSources(items), [items]);
+  const readCount = React.useMemo(() => items.filter((a) => a.readAt).length, [items]);
+  const criticalCount = React.useMemo(() => items.filter((a) => a.severity === 'critical').length, [items]);
+
+  const pickPreset = (preset: AnalyticsPreset) =>
+    setRange((r) => (preset === 'custom' ? { ...r, preset } : presetRange(preset)));
+
+  const maxSource = sources[0]?.count ?? 0;
+
+  return (
+    <section className={panel} aria-busy={loading}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{t('alertsAnalytics.title')}</h2>
+          <p className="text-sm text-gray-500">{t('alertsAnalytics.subtitle')}</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="inline-flex rounded-md border p-0.5" role="group" aria-label={t('alertsAnalytics.range')}>
+            {ANALYTICS_PRESETS.map((p) => (
+              <button
+                key={p}
+                type="button"
+                aria-pressed={range.preset === p}
+                onClick={() => pickPreset(p)}
+                className={`rounded px-2.5 py-1 text-xs font-medium ${
+                  range.preset === p ? 'bg-gray-900 text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {t(`alertsAnalytics.presets.${p}`)}
+              </button>
+            ))}
+          </div>
+          {range.preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                className="rounded-md border px-2 py-1 text-sm"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+                aria-label={t('alertsPage.filters.from')}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                className="rounded-md border px-2 py-1 text-sm"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+                aria-label={t('alertsPage.filters.to')}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+          {t('alertsAnalytics.error')}
+        </p>
+      ) : (
+        <div className={`space-y-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+          {/* Headline numbers */}
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            <Metric label={t('alertsAnalytics.total')} value={items.length.toLocaleString()} />
+            <Metric label={t('alertsAnalytics.critical')} value={criticalCount.toLocaleString()} />
+            <Metric
+              label={t('alertsAnalytics.meanTimeToRead')}
+              value={mttr == null ? '—' : formatDuration(mttr)}
+              sublabel={t('alertsAnalytics.readCount', { count: readCount })}
+            />
+            <Metric
+              label={t('alertsAnalytics.expiringSoon')}
+              value={expiring.total.toLocaleString()}
+              sublabel={t('alertsAnalytics.nextHours', { count: EXPIRING_SOON_HOURS })}
+            />
+          </div>
+
+          {truncated && (
+            <p className="text-xs text-amber-700">{t('alertsAnalytics.truncated', { count: MAX_ITEMS })}</p>
+          )}
+
+          {/* Counts by severity over time */}
+          <div>
+            <h3 className="mb-2 text-sm font-medium text-gray-700">{t('alertsAnalytics.bySeverity')}</h3>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={series} margin={{ left: 0, right: 12, top: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+                  <Tooltip contentStyle={{ borderRadius: 12, border: '1px solid rgba(0,0,0,0.06)' }} />
+                  <Legend />
+                  {SEVERITY_ORDER.map((s) => (
+                    <Bar key={s} dataKey={s} name={t(`severity.${s}`)} stackId="severity" fill={SEVERITY_HEX[s]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {/* Top sources */}
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-gray-700">{t('alertsAnalytics.topSources')}</h3>
+              {sources.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('alertsAnalytics.noSources')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {sources.map(({ source, count }) => (
+                    <li key={source}>
+                      <Link
+                        href={`/dashboard/alerts?source=${encodeURIComponent(source)}`}
+                        className="group block text-sm"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="truncate text-gray-800 group-hover:text-blue-700">{source}</span>
+                          <span className="tabular-nums text-gray-500">{count}</span>
+                        </div>
+                        <div className="mt-1 h-1.5 rounded-full bg-gray-100">
+                          <div
+                            className="h-1.5 rounded-full bg-gray-800"
+                            style={{ width: `${maxSource ? (count / maxSource) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Currently expiring */}
+            <div>
+              <div className="mb-2 flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-700">{t('alertsAnalytics.expiringNow')}</h3>
+                {expiring.total > expiring.items.length && (
+                  <Link href="/dashboard/alerts?expiring=1" className="text-xs font-medium text-blue-600 hover:text-blue-700">
+                    {t('alertsAnalytics.viewAll', { count: expiring.total })}
+                  </Link>
+                )}
+              </div>
+              {expiring.items.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('alertsAnalytics.noneExpiring')}</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {expiring.items.map((a) => (
+                    <li key={a.id}>
+                      <Link href={alertDeepLink(a.id)} className="flex items-center justify-between gap-3 px-3 py-2 text-sm hover:bg-gray-50">
+                        <span className="truncate">{a.title}</span>
+                        {a.expiresAt && (
+                          <time dateTime={a.expiresAt} className="shrink-0 text-xs text-amber-700">
+                            {new Date(a.expiresAt).toLocaleString()}
+                          </time>
+                        )}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
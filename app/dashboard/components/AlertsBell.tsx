@@ -4,41 +4,21 @@ import * as React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
-import { useApi } from '@/utils/api';
-
-type Severity = 'info' | 'warning' | 'critical';
-
-type AlertItem = {
-  id: string | number;
-  title: string;
-  createdAt: string; // ISO
-  severity: Severity;
-  read?: boolean;
-};
-
-type BackendAlertItem = {
-  id: string | number;
-  title: string;
-  createdAtUtc?: string;
-  createdAt?: string;
-  severityCode?: string;
-  isRead?: boolean;
-  read?: boolean;
-};
-
-type BackendSummary = {
-  unreadCount?: number;
-  UnreadCount?: number;
-  items?: BackendAlertItem[];
-  Items?: BackendAlertItem[];
-};
-
-type AlertsSummary = { unreadCount: number; items: AlertItem[] };
-
-interface Props {
-  /** Polling interval (ms). Default: 30s */
-  refreshMs?: number;
-}
+import { useAlerts, isUnread } from '@/context/AlertsContext';
+import { useAuth } from '@/context/authContext';
+import { useAlertPreferences } from '@/context/AlertPreferencesContext';
+import { resolveNotification } from '@/utils/alertNotificationPrefs';
+import { playAlertCue } from '@/utils/notificationSound';
+import { groupAlerts, type AlertThread } from '@/utils/alertGroups';
+import {
+  showAlertNotification, registerAlertsServiceWorker, onServiceWorkerOpenAlert, notificationPermission,
+} from '@/utils/browserNotifications';
+import type { AlertItem, Severity } from '../types/alerts';
+import SnoozeMenu from './SnoozeMenu';
+
+const groupedKey = (userId: number) => `myb4y:alertsBellGrouped:${userId}`;
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, critical: 2 };
 
 function timeAgo(iso: string) {
   const d = new Date(iso).getTime();
@@ -53,138 +33,131 @@ function timeAgo(iso: string) {
   return `${day}d`;
 }
 
-function toNumberId(id: string | number) {
-  const n = Number(id);
-  return Number.isFinite(n) ? n : 0;
-}
-
-function isSameSummary(a: AlertsSummary, b: AlertsSummary) {
-  if (a.unreadCount !== b.unreadCount) return false;
-  if (a.items.length !== b.items.length) return false;
-  for (let i = 0; i < a.items.length; i++) {
-    if (a.items[i].id !== b.items[i].id) return false;
-  }
-  return true;
-}
-
-export default function AlertsBell({ refreshMs = 30_000 }: Props) {
+export default function AlertsBell() {
   const { t } = useTranslation('common');
-  const api = useApi();
   const router = useRouter();
+  const { summary, unreadCount, onAlertsArrived, onAlertsResurfaced, snooze, mutate } = useAlerts();
+  const { prefs } = useAlertPreferences();
+  const { user } = useAuth();
+  const userId = user?.userId;
 
-  // popover (kept, but bell navigates directly)
   const [open, setOpen] = React.useState(false);
+  // short wiggle when something new lands on the badge
+  const [bump, setBump] = React.useState(false);
+  // collapse alerts about the same source + ref (persisted per user)
+  const [grouped, setGrouped] = React.useState(false);
+  const [expanded, setExpanded] = React.useState<Set<string>>(new Set());
   const btnRef = React.useRef<HTMLButtonElement | null>(null);
   const panelRef = React.useRef<HTMLDivElement | null>(null);
 
-  // summary state + refs to avoid mid-fetch clears (no blink)
-  const [summary, setSummary] = React.useState<AlertsSummary>({
-    unreadCount: 0,
-    items: [],
-  });
-  const summaryRef = React.useRef(summary);
-  const loadingRef = React.useRef(false);
-
-  const didFirstLoadRef = React.useRef(false);
-  const lastUnreadRef = React.useRef(0);
-  const lastMaxIdRef = React.useRef(0);
-
-  const fetchAlerts = React.useCallback(async () => {
-    // prevent overlapping fetches (another cause of flicker)
-    if (loadingRef.current) return;
-    loadingRef.current = true;
-
-    try {
-      const res = await api.get<BackendSummary>('/alerts/summary', { params: { max: 12 } });
-      const backend = res.data ?? {};
-
-      const unreadRaw = (backend.unreadCount ?? backend.UnreadCount ?? 0);
-      const rawItems = (backend.items ?? backend.Items ?? []) as BackendAlertItem[];
-
-      const items = rawItems.map<AlertItem>((r) => ({
-        id: r.id,
-        title: r.title,
-        createdAt: r.createdAtUtc ?? r.createdAt ?? new Date().toISOString(),
-        severity:
-          (r.severityCode as Severity) && ['info', 'warning', 'critical'].includes(r.severityCode!)
-            ? (r.severityCode as Severity)
-            : 'info',
-        read: r.isRead ?? r.read ?? false,
-      }));
-
-      const next: AlertsSummary = { unreadCount: unreadRaw, items };
-
-      // Only commit if actually changed — avoids render "blink"
-      if (!isSameSummary(summaryRef.current, next)) {
-        summaryRef.current = next;
-        setSummary(next);
-      }
-
-      // Detect "new alert" (toast) after first load only
-      const maxId = Math.max(0, ...items.map((it) => toNumberId(it.id)));
-      if (didFirstLoadRef.current) {
-        const unreadIncreased = next.unreadCount > lastUnreadRef.current;
-        const newIdAppeared = maxId > lastMaxIdRef.current;
-
-        if (!document.hidden && (unreadIncreased || newIdAppeared)) {
-          toast.info(t('alertsBell.newAlert'));
-        }
-      } else {
-        didFirstLoadRef.current = true;
-      }
+  React.useEffect(() => {
+    if (!bump) return;
+    const timer = window.setTimeout(() => setBump(false), 1000);
+    return () => window.clearTimeout(timer);
+  }, [bump]);
 
-      lastUnreadRef.current = next.unreadCount;
-      lastMaxIdRef.current = maxId;
-    } catch {
-      // silent — keep prior summary (no clearing = no blink)
-    } finally {
-      loadingRef.current = false;
+  React.useEffect(() => {
+    if (userId == null) return;
+    try { setGrouped(localStorage.getItem(groupedKey(userId)) === '1'); } catch {}
+  }, [userId]);
+
+  const toggleGrouped = () => {
+    const next = !grouped;
+    setGrouped(next);
+    if (userId != null) {
+      try { localStorage.setItem(groupedKey(userId), next ? '1' : '0'); } catch {}
     }
-  }, [api, t]);
+  };
 
-  // Polling + visibility-aware restart
-  React.useEffect(() => {
-    let timer: number | null = null;
-    let stopped = false;
+  const threads = React.useMemo(() => (grouped ? groupAlerts(summary) : null), [grouped, summary]);
 
-    const start = async () => {
-      await fetchAlerts();
-      if (stopped) return;
-      timer = window.setInterval(fetchAlerts, refreshMs);
-    };
+  const toggleThread = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
 
-    const stop = () => {
-      if (timer !== null) {
-        window.clearInterval(timer);
-        timer = null;
-      }
-    };
+  const runThreadAction = async (th: AlertThread, action: 'markRead' | 'archive') => {
+    const ids = th.items.filter((a) => (action === 'markRead' ? !a.read : !a.archived)).map((a) => a.id);
+    if (ids.length === 0) return;
+    if (!(await mutate(action, ids))) toast.error(t('alertsBell.thread.error'));
+  };
 
-    const onVisibility = () => {
-      if (document.hidden) {
-        stop();
-      } else {
-        stop();
-        fetchAlerts().finally(() => {
-          if (!stopped) timer = window.setInterval(fetchAlerts, refreshMs);
-        });
-      }
-    };
+  const goToAlertsPage = React.useCallback(
+    (id?: string | number) => {
+      setOpen(false);
+      const url = id != null ? `/dashboard/alerts?id=${encodeURIComponent(String(id))}` : '/dashboard/alerts';
+      router.push(url);
+    },
+    [router]
+  );
 
-    start();
-    document.addEventListener('visibilitychange', onVisibility);
-    return () => {
-      stopped = true;
-      stop();
-      document.removeEventListener('visibilitychange', onVisibility);
-    };
-  }, [fetchAlerts, refreshMs]);
+  // Service worker: shows notifications while the tab is hidden and forwards clicks back to us
+  React.useEffect(() => {
+    if (notificationPermission() === 'granted') registerAlertsServiceWorker();
+    return onServiceWorkerOpenAlert((href) => router.push(href));
+  }, [router]);
+
+  // Announces alerts through whichever channels the user's preferences allow
+  const announce = React.useCallback((items: AlertItem[], toastText: string) => {
+    const now = new Date();
+    const plans = items.map((a) => ({ alert: a, channels: resolveNotification(prefs, a, now) }));
+
+    if (!document.hidden && plans.some((p) => p.channels.toast)) toast.info(toastText);
+    // one cue per batch: the most severe alert that asked for sound picks it
+    const loudest = plans
+      .filter((p) => p.channels.sound)
+      .map((p) => p.alert.severity)
+      .sort((a, b) => SEVERITY_RANK[b] - SEVERITY_RANK[a])[0];
+    if (loudest) playAlertCue(prefs.sounds[loudest], { evenIfHidden: loudest === 'critical' });
+    // the OS notification is what reaches you when the tab is in the background
+    // (toasts are skipped there), so critical alerts aren't missed
+    plans
+      .filter((p) => p.channels.browser)
+      .forEach((p) => showAlertNotification(p.alert, (href) => router.push(href)));
+  }, [prefs, router]);
+
+  // New alerts (pushed by the hub or picked up by the fallback polling)
+  React.useEffect(() => {
+    return onAlertsArrived((items) => {
+      const fresh = items.filter(isUnread);
+      if (fresh.length === 0) return;
+      setBump(true);
+      announce(fresh, t('alertsBell.newAlert'));
+    });
+  }, [onAlertsArrived, announce, t]);
+
+  // ...and when a snooze ends
+  React.useEffect(() => {
+    return onAlertsResurfaced((items) => {
+      const back = items.filter(isUnread);
+      if (back.length === 0) return;
+      setBump(true);
+      announce(
+        back,
+        back.length === 1
+          ? t('alertsBell.snoozeEnded', { title: back[0].title })
+          : t('alertsBell.snoozeEndedMany', { count: back.length })
+      );
+    });
+  }, [onAlertsResurfaced, announce, t]);
+
+  const snoozeFromBell = React.useCallback(async (id: string | number, until: Date) => {
+    const result = await snooze([id], until);
+    if (result === 'queued') toast.info(t('offline.queued'));
+    else if (result) toast.success(t('snooze.snoozed', { date: until.toLocaleString() }));
+    else toast.error(t('snooze.error'));
+  }, [snooze, t]);
 
   // Close popover by outside click
   React.useEffect(() => {
     if (!open) return;
     const onDocClick = (e: MouseEvent) => {
       const tNode = e.target as Node;
+      // the snooze menu renders in a portal outside the panel
+      if (tNode instanceof Element && tNode.closest('[data-snooze-panel]')) return;
       if (panelRef.current && !panelRef.current.contains(tNode) &&
           btnRef.current && !btnRef.current.contains(tNode)) {
         setOpen(false);
@@ -202,23 +175,67 @@ export default function AlertsBell({ refreshMs = 30_000 }: Props) {
     return () => document.removeEventListener('keydown', onKey);
   }, [open]);
 
-  // Refresh on inline actions
-  React.useEffect(() => {
-    const onUpdated = () => fetchAlerts();
-    window.addEventListener('alerts-updated', onUpdated);
-    return () => window.removeEventListener('alerts-updated', onUpdated);
-  }, [fetchAlerts]);
+  const bellHasUnread = unreadCount > 0;
 
-  const goToAlertsPage = React.useCallback(
-    (id?: string | number) => {
-      setOpen(false);
-      const url = id != null ? `/dashboard/alerts?id=${encodeURIComponent(String(id))}` : '/dashboard/alerts';
-      router.push(url);
-    },
-    [router]
-  );
+  const renderItem = (a: AlertItem, nested = false) => (
+    <li key={a.id} className={`flex items-start ${nested ? 'bg-black/[0.02] pl-4 dark:bg-white/[0.03]' : ''}`}>
+      <button
+        type="button"
+        onClick={() => goToAlertsPage(a.id)}
+        className={[
+          'group flex min-w-0 flex-1 items-start gap-3 py-3 pl-4 pr-2 text-left',
+          'transition-all hover:bg-gradient-to-r hover:from-blue-50 hover:to-transparent dark:hover:from-white/5',
+        ].join(' ')}
+      >
+        <div className="mt-1">
+          {!a.read ? (
+            <span className="relative block h-2.5 w-2.5 rounded-full bg-blue-600">
+              <span className="absolute inset-0 animate-ping rounded-full bg-blue-500/50" />
+            </span>
+          ) : (
+            <span className="block h-2.5 w-2.5 rounded-full bg-gray-300 dark:bg-zinc-700" />
+          )}
+        </div>
 
-  const bellHasUnread = summary.unreadCount > 0;
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center justify-between gap-3">
+            <span className="truncate text-sm font-medium text-gray-900 dark:text-zinc-100">
+              {a.title}
+            </span>
+            <span
+              className={[
+                'inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium',
+                a.severity === 'critical'
+                  ? 'bg-gradient-to-r from-red-500 to-rose-500 text-white'
+                  : a.severity === 'warning'
+                  ? 'bg-gradient-to-r from-amber-400 to-orange-500 text-white'
+                  : 'bg-gradient-to-r from-sky-400 to-blue-500 text-white',
+                'shadow-sm',
+              ].join(' ')}
+            >
+              {t(`severity.${a.severity}`, a.severity)}
+            </span>
+          </div>
+          <div className="mt-1 flex items-center gap-2 text-xs text-gray-500 dark:text-zinc-400">
+            <time dateTime={a.createdAt} title={new Date(a.createdAt).toLocaleString()}>
+              {timeAgo(a.createdAt)} {t('alertsBell.ago')}
+            </time>
+            <span className="opacity-40">•</span>
+            <span className="opacity-70 group-hover:opacity-100 transition-opacity">
+              {t('alertsBell.open')}
+            </span>
+          </div>
+        </div>
+      </button>
+      <div className="py-2.5 pr-3">
+        <SnoozeMenu
+          compact
+          onSnooze={(until) => snoozeFromBell(a.id, until)}
+          buttonClassName="grid h-7 w-7 place-items-center rounded-full text-gray-500 hover:bg-black/5 hover:text-gray-800 dark:text-zinc-400 dark:hover:bg-white/10"
+        />
+      </div>
+    </li>
+  );
 
   return (
     <div className="relative">
@@ -228,11 +245,12 @@ export default function AlertsBell({ refreshMs = 30_000 }: Props) {
         ref={btnRef}
         type="button"
         aria-haspopup="menu"
-        aria-expanded={false}
+        aria-expanded={open}
         aria-controls="alerts-popover"
-        onClick={() => goToAlertsPage()}
+        onClick={() => setOpen((o) => !o)}
         className={[
           'relative inline-flex h-10 w-10 items-center justify-center rounded-full',
+          bump ? 'animate-bounce' : '',
           'bg-gradient-to-b from-white to-gray-100 dark:from-zinc-800 dark:to-zinc-900',
           'shadow-sm ring-1 ring-black/5 dark:ring-white/10',
           'transition-transform hover:scale-[1.03] active:scale-95',
@@ -253,7 +271,7 @@ export default function AlertsBell({ refreshMs = 30_000 }: Props) {
                 'shadow-[0_0_0_2px] shadow-white dark:shadow-zinc-900',
               ].join(' ')}
             >
-              {summary.unreadCount > 99 ? '99+' : summary.unreadCount}
+              {unreadCount > 99 ? '99+' : unreadCount}
             </span>
             <span
               className="absolute -top-0.5 -right-0.5 block h-5 w-5 animate-ping rounded-full bg-red-500/50"
@@ -263,7 +281,6 @@ export default function AlertsBell({ refreshMs = 30_000 }: Props) {
         )}
       </button>
 
-      {/* Optional popover (kept) */}
       {open && (
         <div
           id="alerts-popover"
@@ -280,74 +297,72 @@ export default function AlertsBell({ refreshMs = 30_000 }: Props) {
             <div className="text-sm font-semibold text-gray-900 dark:text-zinc-100">
               {t('alertsBell.header')}
             </div>
-            <button
-              type="button"
-              onClick={() => goToAlertsPage()}
-              className="text-xs font-medium text-blue-600 hover:text-blue-700 dark:text-sky-400 dark:hover:text-sky-300"
-            >
-              {t('alertsBell.viewAll')}
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                aria-pressed={grouped}
+                onClick={toggleGrouped}
+                className={`text-xs font-medium ${grouped ? 'text-blue-600 dark:text-sky-400' : 'text-gray-600 hover:text-gray-900 dark:text-zinc-400'}`}
+              >
+                {t('alertsBell.group')}
+              </button>
+              <button
+                type="button"
+                onClick={() => goToAlertsPage()}
+                className="text-xs font-medium text-blue-600 hover:text-blue-700 dark:text-sky-400 dark:hover:text-sky-300"
+              >
+                {t('alertsBell.viewAll')}
+              </button>
+            </div>
           </div>
 
           <div className="max-h-96 overflow-auto">
-            {summary.items.length === 0 ? (
+            {summary.length === 0 ? (
               <div className="px-4 py-10 text-center text-sm text-gray-600 dark:text-zinc-400">
                 {t('alertsBell.empty')}
               </div>
             ) : (
               <ul className="divide-y divide-black/5 dark:divide-white/10">
-                {summary.items.map((a) => (
-                  <li key={a.id}>
-                    <button
-                      type="button"
-                      onClick={() => goToAlertsPage(a.id)}
-                      className={[
-                        'group flex w-full items-start gap-3 px-4 py-3 text-left',
-                        'transition-all hover:bg-gradient-to-r hover:from-blue-50 hover:to-transparent dark:hover:from-white/5',
-                      ].join(' ')}
-                    >
-                      <div className="mt-1">
-                        {!a.read ? (
-                          <span className="relative block h-2.5 w-2.5 rounded-full bg-blue-600">
-                            <span className="absolute inset-0 animate-ping rounded-full bg-blue-500/50" />
-                          </span>
-                        ) : (
-                          <span className="block h-2.5 w-2.5 rounded-full bg-gray-300 dark:bg-zinc-700" />
-                        )}
-                      </div>
-
-                      <div className="min-w-0 flex-1">
-                        <div className="flex items-center justify-between gap-3">
-                          <span className="truncate text-sm font-medium text-gray-900 dark:text-zinc-100">
-                            {a.title}
-                          </span>
-                          <span
-                            className={[
-                              'inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium',
-                              a.severity === 'critical'
-                                ? 'bg-gradient-to-r from-red-500 to-rose-500 text-white'
-                                : a.severity === 'warning'
-                                ? 'bg-gradient-to-r from-amber-400 to-orange-500 text-white'
-                                : 'bg-gradient-to-r from-sky-400 to-blue-500 text-white',
-                              'shadow-sm',
-                            ].join(' ')}
-                          >
-                            {t(`severity.${a.severity}`, a.severity)}
-                          </span>
-                        </div>
-                        <div className="mt-1 flex items-center gap-2 text-xs text-gray-500 dark:text-zinc-400">
-                          <time dateTime={a.createdAt} title={new Date(a.createdAt).toLocaleString()}>
-                            {timeAgo(a.createdAt)} {t('alertsBell.ago')}
-                          </time>
-                          <span className="opacity-40">•</span>
-                          <span className="opacity-70 group-hover:opacity-100 transition-opacity">
-                            {t('alertsBell.open')}
-                          </span>
-                        </div>
-                      </div>
-                    </button>
-                  </li>
-                ))}
+                {threads
+                  ? threads.map((th) => {
+                      if (th.items.length < 2) return renderItem(th.latest);
+                      const isOpen = expanded.has(th.key);
+                      return (
+                        <React.Fragment key={`thread:${th.key}`}>
+                          {renderItem(th.latest)}
+                          <li className="flex items-center justify-between gap-2 px-4 py-1.5 text-xs">
+                            <button
+                              type="button"
+                              aria-expanded={isOpen}
+                              onClick={() => toggleThread(th.key)}
+                              className="font-medium text-gray-600 hover:text-gray-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                            >
+                              {isOpen ? '▾' : '▸'} {t('alertsBell.thread.more', { count: th.items.length - 1 })}
+                            </button>
+                            <span className="flex items-center gap-3">
+                              {th.unread > 0 && (
+                                <button
+                                  type="button"
+                                  onClick={() => runThreadAction(th, 'markRead')}
+                                  className="text-blue-600 hover:text-blue-700 dark:text-sky-400"
+                                >
+                                  {t('alertsBell.thread.markRead')}
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => runThreadAction(th, 'archive')}
+                                className="text-gray-600 hover:text-gray-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                              >
+                                {t('alertsBell.thread.archive')}
+                              </button>
+                            </span>
+                          </li>
+                          {isOpen && th.items.slice(1).map((a) => renderItem(a, true))}
+                        </React.Fragment>
+                      );
+                    })
+                  : summary.map((a) => renderItem(a))}
               </ul>
             )}
           </div>
@@ -0,0 +1,169 @@
+'use client';
+
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Listbox, ListboxButton, ListboxOption, ListboxOptions } from '@headlessui/react';
+import { Check, ChevronDown, Search, X } from 'lucide-react';
+import { AlertsFilters, hasActiveFilters, EXPIRING_SOON_HOURS } from '@/utils/alertsFilters';
+
+interface Props {
+  filters: AlertsFilters;
+  /** distinct alert sources offered in the multi-select */
+  sourceOptions: string[];
+  onChange: (patch: Partial<AlertsFilters>) => void;
+  searchInputRef?: React.Ref<HTMLInputElement>;
+}
+
+const DEBOUNCE_MS = 350;
+
+/** Text input that only reports its value once the user pauses typing */
+function useDebouncedText(value: string, onCommit: (v: string) => void) {
+  const [text, setText] = React.useState(value);
+
+  // external changes (back button, "clear filters") win over local text
+  React.useEffect(() => { setText(value); }, [value]);
+
+  const commitRef = React.useRef(onCommit);
+  React.useEffect(() => { commitRef.current = onCommit; }, [onCommit]);
+
+  React.useEffect(() => {
+    if (text.trim() === value) return;
+    const timer = window.setTimeout(() => commitRef.current(text.trim()), DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [text, value]);
+
+  return [text, setText] as const;
+}
+
+const inputCls = 'rounded-md border px-2 py-1 text-sm';
+
+export default function AlertsFilterBar({ filters, sourceOptions, onChange, searchInputRef }: Props) {
+  const { t } = useTranslation('common');
+
+  const [search, setSearch] = useDebouncedText(filters.q, (q) => onChange({ q }));
+  const [sourceRef, setSourceRef] = useDebouncedText(filters.sourceRef, (v) => onChange({ sourceRef: v }));
+
+  // keep selected sources listed even if they are not in the current options
+  const options = React.useMemo(
+    () => Array.from(new Set([...sourceOptions, ...filters.sources])).sort((a, b) => a.localeCompare(b)),
+    [sourceOptions, filters.sources]
+  );
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 rounded-md border bg-white/60 p-3">
+      {/* Search */}
+      <div className="flex min-w-[14rem] flex-1 flex-col gap-1">
+        <label htmlFor="alerts-search" className="text-xs text-gray-600">{t('alertsPage.filters.search')}</label>
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <input
+            id="alerts-search"
+            ref={searchInputRef}
+            type="search"
+            className={`${inputCls} w-full pl-8`}
+            placeholder={t('alertsPage.filters.searchPlaceholder')}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {/* Sources (multi) */}
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-gray-600">{t('alertsPage.filters.source')}</span>
+        <Listbox value={filters.sources} onChange={(sources: string[]) => onChange({ sources })} multiple>
+          <div className="relative">
+            <ListboxButton className={`${inputCls} flex w-48 items-center justify-between gap-2 bg-white text-left`}>
+              <span className="truncate">
+                {filters.sources.length === 0
+                  ? t('alertsPage.filters.allSources')
+                  : filters.sources.length === 1
+                  ? filters.sources[0]
+                  : t('alertsPage.filters.sourcesSelected', { count: filters.sources.length })}
+              </span>
+              <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+            </ListboxButton>
+            <ListboxOptions
+              anchor="bottom start"
+              className="z-20 mt-1 max-h-60 w-56 overflow-auto rounded-md border bg-white py-1 text-sm shadow-lg focus:outline-none"
+            >
+              {options.length === 0 ? (
+                <div className="px-3 py-2 text-gray-500">{t('alertsPage.filters.noSources')}</div>
+              ) : (
+                options.map((src) => (
+                  <ListboxOption
+                    key={src}
+                    value={src}
+                    className="group flex cursor-pointer items-center gap-2 px-3 py-1.5 data-[focus]:bg-gray-100"
+                  >
+                    <Check className="h-4 w-4 invisible group-data-[selected]:visible" />
+                    <span className="truncate">{src}</span>
+                  </ListboxOption>
+                ))
+              )}
+            </ListboxOptions>
+          </div>
+        </Listbox>
+      </div>
+
+      {/* Source reference */}
+      <div className="flex flex-col gap-1">
+        <label htmlFor="alerts-source-ref" className="text-xs text-gray-600">{t('alertsPage.filters.sourceRef')}</label>
+        <input
+          id="alerts-source-ref"
+          className={`${inputCls} w-36`}
+          value={sourceRef}
+          onChange={(e) => setSourceRef(e.target.value)}
+        />
+      </div>
+
+      {/* Created between */}
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-gray-600">{t('alertsPage.filters.createdBetween')}</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="date"
+            className={inputCls}
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+            aria-label={t('alertsPage.filters.from')}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            className={inputCls}
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+            aria-label={t('alertsPage.filters.to')}
+          />
+        </div>
+      </div>
+
+      {/* Expiring soon */}
+      <label
+        className="flex items-center gap-2 py-1 text-sm"
+        title={t('alertsPage.filters.expiringSoonHint', { hours: EXPIRING_SOON_HOURS })}
+      >
+        <input
+          type="checkbox"
+          checked={filters.expiring}
+          onChange={(e) => onChange({ expiring: e.target.checked })}
+        />
+        {t('alertsPage.filters.expiringSoon')}
+      </label>
+
+      {hasActiveFilters(filters) && (
+        <button
+          type="button"
+          onClick={() => onChange({ q: '', sources: [], sourceRef: '', from: '', to: '', expiring: false })}
+          className="ml-auto inline-flex items-center gap-1 py-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <X className="h-4 w-4" />
+          {t('alertsPage.filters.clear')}
+        </button>
+      )}
+    </div>
+  );
+}
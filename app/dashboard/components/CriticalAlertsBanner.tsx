@@ -0,0 +1,52 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle } from 'lucide-react';
+import { useAlerts } from '@/context/AlertsContext';
+import { alertDeepLink } from '@/utils/browserNotifications';
+
+/**
+ * Red strip under the header while any critical alert is unacknowledged.
+ * It can't be dismissed: it goes away once every one of them is acknowledged.
+ */
+export default function CriticalAlertsBanner() {
+  const { t } = useTranslation('common');
+  const { unacknowledged } = useAlerts();
+
+  if (unacknowledged.length === 0) return null;
+  const [latest] = unacknowledged;
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-wrap items-center justify-between gap-3 bg-red-700 px-4 py-2 text-sm text-white"
+    >
+      <div className="flex min-w-0 items-center gap-2">
+        <AlertTriangle className="h-4 w-4 shrink-0 animate-pulse" aria-hidden="true" />
+        <span className="truncate">
+          {unacknowledged.length === 1
+            ? t('ack.bannerOne', { title: latest.title })
+            : t('ack.bannerMany', { count: unacknowledged.length })}
+        </span>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        <Link
+          href={alertDeepLink(latest.id)}
+          className="rounded-md bg-white px-3 py-1 font-medium text-red-700 hover:bg-red-50"
+        >
+          {t('ack.review')}
+        </Link>
+        {unacknowledged.length > 1 && (
+          <Link
+            href="/dashboard/alerts?view=unacknowledged"
+            className="rounded-md border border-white/60 px-3 py-1 font-medium hover:bg-white/10"
+          >
+            {t('ack.viewAll')}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,16 @@
 import React, { useState, useMemo } from 'react';
 import Image from 'next/image';
 import { Menu, MenuButton, MenuItems, MenuItem } from '@headlessui/react';
-import { ChevronDown, LogOut } from 'lucide-react';
+import { ChevronDown, LogOut, Volume2, VolumeX } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
 
 import LanguagePicker from '@/components/LanguagePicker';
 import { useAuth } from '@/context/authContext';
-import { useApi } from '@/utils/api';
+import { useSoundMuted } from '@/utils/notificationSound';
 import AlertsBell from './AlertsBell'; // ← shared SignalR version
+import CriticalAlertsBanner from './CriticalAlertsBanner';
 
 interface DashboardHeaderProps {
   avatarSrc: string;
@@ -39,9 +40,9 @@ export default function DashboardHeader({
 }: DashboardHeaderProps) {
   const { t } = useTranslation('common');
   const { logout, user } = useAuth();
-  const api = useApi();
   const router = useRouter();
   const [loggingOut, setLoggingOut] = useState(false);
+  const [muted, setMuted] = useSoundMuted();
 
   // Personalized greeting
   const displayName = useMemo(() => {
@@ -64,7 +65,8 @@ export default function DashboardHeader({
     if (loggingOut) return;
     setLoggingOut(true);
     try {
-      await api.post('/auth/logout', {}, { validateStatus: s => s < 500 }).catch(() => {});
+      // signs out with the backend, once alert actions queued offline have had their chance
+      try { await logout(); } catch {}
       try { sessionStorage.clear(); } catch {}
       try {
         localStorage.removeItem('userLang');
@@ -72,7 +74,6 @@ export default function DashboardHeader({
         localStorage.removeItem('sparc_auth');
         localStorage.removeItem('persist:root');
       } catch {}
-      try { await logout(); } catch {}
       toast.success(t('auth.loggedOutToast'));
       router.replace('/');
     } finally {
@@ -81,74 +82,90 @@ export default function DashboardHeader({
   };
 
   return (
-    <header className="flex items-center justify-between p-4 bg-gradient-to-br from-red-700/60 via-black/70 to-green-700/60 text-[var(--color-flag_white)]">
-      {/* Left: menu + title */}
-      <div className="flex flex-col sm:flex-row sm:items-center sm:gap-4">
-        <div className="flex items-center">
+    <>
+      <header className="flex items-center justify-between p-4 bg-gradient-to-br from-red-700/60 via-black/70 to-green-700/60 text-[var(--color-flag_white)]">
+        {/* Left: menu + title */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:gap-4">
+          <div className="flex items-center">
+            <button
+              onClick={onMenuClick}
+              className="mr-4 p-2 rounded hover:bg-white/10 transition"
+              aria-label={t('dashboard.openMenu')}
+            >
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+              </svg>
+            </button>
+            <h1 className="text-xl font-semibold">{t('dashboard.title')}</h1>
+          </div>
+        </div>
+
+        {/* Right: alerts + greeting + language + profile */}
+        <div className="flex items-center gap-3">
           <button
-            onClick={onMenuClick}
-            className="mr-4 p-2 rounded hover:bg-white/10 transition"
-            aria-label={t('dashboard.openMenu')}
+            type="button"
+            onClick={() => setMuted(!muted)}
+            className="p-2 rounded hover:bg-white/10 transition"
+            aria-pressed={muted}
+            aria-label={muted ? t('dashboard.unmuteSounds') : t('dashboard.muteSounds')}
+            title={muted ? t('dashboard.unmuteSounds') : t('dashboard.muteSounds')}
           >
-            <svg
-              className="w-6 h-6"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-            </svg>
+            {muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
           </button>
-          <h1 className="text-xl font-semibold">{t('dashboard.title')}</h1>
+
+          <AlertsBell />
+
+          {/* 👋 Greeting placed between alerts and language picker */}
+          <p className="hidden sm:block text-sm text-[var(--color-flag_white)]/80 whitespace-nowrap">
+            {greeting}
+          </p>
+
+          <LanguagePicker />
+
+          <Menu as="div" className="relative">
+            <MenuButton className="flex items-center gap-2 focus:outline-none">
+              <div className="w-8 h-8 rounded-full overflow-hidden border-2 border-white">
+                <Image
+                  src={avatarSrc}
+                  alt={t('dashboard.avatarAlt')}
+                  width={32}
+                  height={32}
+                  className="object-cover"
+                />
+              </div>
+              <ChevronDown className="w-4 h-4 text-[var(--color-flag_white)]" />
+            </MenuButton>
+
+            <MenuItems className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg overflow-hidden z-50">
+              <MenuItem>
+                {({ active }) => (
+                  <button
+                    onClick={handleLogout}
+                    disabled={loggingOut}
+                    className={[
+                      'flex w-full items-center px-4 py-2 text-sm',
+                      active ? 'bg-gray-100' : '',
+                      'text-[var(--color-text_dark)]',
+                      loggingOut ? 'opacity-60 cursor-not-allowed' : '',
+                    ].join(' ')}
+                  >
+                    <LogOut className="w-4 h-4 mr-2" />
+                    {t('dashboard.logout')}
+                  </button>
+                )}
+              </MenuItem>
+            </MenuItems>
+          </Menu>
         </div>
-      </div>
-
-      {/* Right: alerts + greeting + language + profile */}
-      <div className="flex items-center gap-3">
-        <AlertsBell />
-
-        {/* 👋 Greeting placed between alerts and language picker */}
-        <p className="hidden sm:block text-sm text-[var(--color-flag_white)]/80 whitespace-nowrap">
-          {greeting}
-        </p>
-
-        <LanguagePicker />
-
-        <Menu as="div" className="relative">
-          <MenuButton className="flex items-center gap-2 focus:outline-none">
-            <div className="w-8 h-8 rounded-full overflow-hidden border-2 border-white">
-              <Image
-                src={avatarSrc}
-                alt={t('dashboard.avatarAlt')}
-                width={32}
-                height={32}
-                className="object-cover"
-              />
-            </div>
-            <ChevronDown className="w-4 h-4 text-[var(--color-flag_white)]" />
-          </MenuButton>
-
-          <MenuItems className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg overflow-hidden z-50">
-            <MenuItem>
-              {({ active }) => (
-                <button
-                  onClick={handleLogout}
-                  disabled={loggingOut}
-                  className={[
-                    'flex w-full items-center px-4 py-2 text-sm',
-                    active ? 'bg-gray-100' : '',
-                    'text-[var(--color-text_dark)]',
-                    loggingOut ? 'opacity-60 cursor-not-allowed' : '',
-                  ].join(' ')}
-                >
-                  <LogOut className="w-4 h-4 mr-2" />
-                  {t('dashboard.logout')}
-                </button>
-              )}
-            </MenuItem>
-          </MenuItems>
-        </Menu>
-      </div>
-    </header>
+      </header>
+
+      {/* stays until every critical alert is acknowledged */}
+      <CriticalAlertsBanner />
+    </>
   );
 }
@@ -0,0 +1,64 @@
+'use client';
+
+import * as React from 'react';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { useTranslation } from 'react-i18next';
+
+/** [keys, i18n key of the description] */
+const SHORTCUTS: Array<[string[], string]> = [
+  [['j'], 'shortcuts.next'],
+  [['k'], 'shortcuts.prev'],
+  [['Enter'], 'shortcuts.open'],
+  [['r'], 'shortcuts.markRead'],
+  [['u'], 'shortcuts.markUnread'],
+  [['e'], 'shortcuts.archive'],
+  [['x'], 'shortcuts.select'],
+  [['/'], 'shortcuts.search'],
+  [['?'], 'shortcuts.help'],
+  [['Esc'], 'shortcuts.close'],
+];
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function ShortcutsDialog({ isOpen, onClose }: Props) {
+  const { t } = useTranslation('common');
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl">
+          <div className="mb-4 flex items-center justify-between">
+            <DialogTitle className="text-lg font-semibold">{t('shortcuts.title')}</DialogTitle>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-8 h-8 grid place-items-center rounded-full border hover:bg-gray-50"
+              aria-label={t('common.close')}
+            >
+              ✕
+            </button>
+          </div>
+          <dl className="divide-y text-sm">
+            {SHORTCUTS.map(([keys, labelKey]) => (
+              <div key={labelKey} className="flex items-center justify-between py-2">
+                <dt className="text-gray-700">{t(labelKey)}</dt>
+                <dd className="flex gap-1">
+                  {keys.map((k) => (
+                    <kbd key={k} className="min-w-[1.75rem] rounded border bg-gray-50 px-1.5 py-0.5 text-center font-mono text-xs shadow-sm">
+                      {k}
+                    </kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <p className="mt-4 text-xs text-gray-500">{t('shortcuts.hint')}</p>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
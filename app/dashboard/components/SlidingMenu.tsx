@@ -9,12 +9,13 @@ import {
 } from '@/components/ui/accordion';
 import { useTranslation } from 'react-i18next';
 import { useAuth, UserAccess } from '@/context/authContext';
-import { useApi } from '@/utils/api';
 import verificarImg from '@/images/logo_new.png';
 import myb4yImg from '@/images/logo_transparent.png';
 import {
   moduleIcons, defaultModuleIcon, componentIcons, defaultComponentIcon,
 } from '@/config/iconMap';
+import { canAccessRoute } from '@/config/routePermissions';
+import { accessHref } from '@/utils/usePermission';
 
 interface SlidingMenuProps {
   isOpen: boolean;
@@ -28,9 +29,8 @@ type MenuModule = {
 
 export default function SlidingMenu({ isOpen, onClose }: SlidingMenuProps) {
   const { t } = useTranslation('common');
-  const { access, logout } = useAuth();
+  const { access, roles, logout } = useAuth();
   const router = useRouter();
-  const api = useApi();
 
   // open change password via event
   const handleOpenChangePassword = useCallback((e: React.MouseEvent<HTMLAnchorElement>) => {
@@ -42,22 +42,22 @@ export default function SlidingMenu({ isOpen, onClose }: SlidingMenuProps) {
 
   // unified logout (same cleanup as header)
   const handleLogout = useCallback(async () => {
-    try {
-      await api.post('/auth/logout');
-    } catch {
-      // ignore network errors on logout
-    }
+    // signs out with the backend, once alert actions queued offline have had their chance
+    await logout();
     try {
       document.cookie = 'accessToken=; Max-Age=0; path=/; SameSite=None; Secure';
     } catch {}
+    try { sessionStorage.clear(); } catch {}
+    // per-user preferences (e.g. alerts table) survive sign-out
     try {
-      sessionStorage.clear();
-      localStorage.clear();
+      localStorage.removeItem('userLang');
+      localStorage.removeItem('myb4y_auth');
+      localStorage.removeItem('sparc_auth');
+      localStorage.removeItem('persist:root');
     } catch {}
-    logout();
     onClose();
     router.replace('/');
-  }, [api, logout, onClose, router]);
+  }, [logout, onClose, router]);
 
   // Build modules from access
   const accessModules: MenuModule[] = useMemo(() => {
@@ -70,11 +70,7 @@ export default function SlidingMenu({ isOpen, onClose }: SlidingMenuProps) {
           byModule.set(a.moduleName, { moduleName: a.moduleName, components: new Map() });
         }
         const bucket = byModule.get(a.moduleName)!;
-        const href =
-          '/dashboard/' +
-          a.moduleName.toLowerCase().replace(/\s+/g, '-') +
-          '/' +
-          a.componentName.toLowerCase().replace(/\s+/g, '-');
+        const href = accessHref(a.moduleName, a.componentName);
         bucket.components.set(href, { name: a.componentName, href });
       });
 
@@ -98,13 +94,17 @@ export default function SlidingMenu({ isOpen, onClose }: SlidingMenuProps) {
   const sessionSection: MenuModule = useMemo(() => ({
     moduleName: 'Session',
     components: [
+      { name: 'Sessions', href: '/dashboard/sessions' },
       { name: 'Log Out', onClick: handleLogout },
     ],
   }), [handleLogout]);
 
+  // links the user's roles don't open are left out (a module left empty goes too)
   const modules = useMemo<MenuModule[]>(() => {
-    return [universalUsersSection, ...accessModules, sessionSection];
-  }, [universalUsersSection, accessModules, sessionSection]);
+    return [universalUsersSection, ...accessModules, sessionSection]
+      .map((m) => ({ ...m, components: m.components.filter((c) => !c.href || canAccessRoute(c.href, roles)) }))
+      .filter((m) => m.components.length > 0);
+  }, [universalUsersSection, accessModules, sessionSection, roles]);
 
   return (
     <>
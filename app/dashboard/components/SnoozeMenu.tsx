@@ -0,0 +1,114 @@
+'use client';
+
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Popover, PopoverButton, PopoverPanel } from '@headlessui/react';
+import { AlarmClock } from 'lucide-react';
+
+interface Props {
+  onSnooze: (until: Date) => void;
+  disabled?: boolean;
+  /** icon-only trigger (bell rows) */
+  compact?: boolean;
+  buttonClassName?: string;
+}
+
+/** Hour "tomorrow morning" snoozes wake up at (local time) */
+const MORNING_HOUR = 9;
+
+function inOneHour() {
+  return new Date(Date.now() + 3_600_000);
+}
+
+function tomorrowMorning() {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  d.setHours(MORNING_HOUR, 0, 0, 0);
+  return d;
+}
+
+// value for <input type="datetime-local"> (local time, minute precision)
+function toLocalInput(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export default function SnoozeMenu({ onSnooze, disabled, compact, buttonClassName }: Props) {
+  const { t } = useTranslation('common');
+  const [custom, setCustom] = React.useState('');
+
+  const customDate = custom ? new Date(custom) : null;
+  const customValid = !!customDate && !Number.isNaN(customDate.getTime()) && customDate.getTime() > Date.now();
+
+  return (
+    <Popover className="relative">
+      <PopoverButton
+        disabled={disabled}
+        className={buttonClassName ?? 'inline-flex items-center gap-1 rounded-lg border px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-60'}
+        title={t('snooze.label')}
+        aria-label={compact ? t('snooze.label') : undefined}
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+      >
+        <AlarmClock className="h-4 w-4" />
+        {!compact && t('snooze.label')}
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor="bottom end"
+        data-snooze-panel
+        className="z-[60] mt-1 w-60 rounded-md border bg-white p-1 text-sm shadow-lg"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+      >
+        {({ close }) => (
+          <>
+            {([
+              ['snooze.oneHour', inOneHour],
+              ['snooze.tomorrowMorning', tomorrowMorning],
+            ] as Array<[string, () => Date]>).map(([labelKey, until]) => (
+              <button
+                key={labelKey}
+                type="button"
+                onClick={() => { onSnooze(until()); close(); }}
+                className="block w-full rounded px-3 py-2 text-left hover:bg-gray-100"
+              >
+                {t(labelKey, { hour: `${MORNING_HOUR}:00` })}
+              </button>
+            ))}
+
+            <form
+              className="mt-1 border-t px-3 pb-2 pt-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!customValid) return;
+                onSnooze(customDate!);
+                setCustom('');
+                close();
+              }}
+            >
+              <label className="mb-1 block text-xs text-gray-600" htmlFor="snooze-custom">
+                {t('snooze.custom')}
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="snooze-custom"
+                  type="datetime-local"
+                  className="min-w-0 flex-1 rounded-md border px-2 py-1 text-sm"
+                  min={toLocalInput(new Date())}
+                  value={custom}
+                  onChange={(e) => setCustom(e.target.value)}
+                />
+                <button
+                  type="submit"
+                  disabled={!customValid}
+                  className="rounded-md border px-2 py-1 text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {t('snooze.set')}
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </PopoverPanel>
+    </Popover>
+  );
+}
@@ -2,10 +2,14 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/context/authContext';
+import { AlertsProvider } from '@/context/AlertsContext';
+import { AlertPreferencesProvider } from '@/context/AlertPreferencesContext';
+import { canAccessRoute } from '@/config/routePermissions';
+import ForbiddenNotice from '@/components/ForbiddenNotice';
 import DashboardHeader from './components/DashboardHeader';
 import SlidingMenu from './components/SlidingMenu';
 import IdleClient from './IdleClient';
@@ -13,7 +17,8 @@ import IdleClient from './IdleClient';
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
   const { t } = useTranslation('common');
   const router = useRouter();
-  const { loading, loaded, user } = useAuth();
+  const pathname = usePathname();
+  const { loading, loaded, user, roles } = useAuth();
   const [menuOpen, setMenuOpen] = useState(false);
 
   // Auth guard (server-safe via middleware; client fallback here)
@@ -27,15 +32,20 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
   if (loading || !loaded || !user) return null;
 
   return (
-    <div className="min-h-screen bg-[var(--color-background_light)]">
-      <DashboardHeader
-        avatarSrc={user.image || '/favicon.ico'}
-        onMenuClick={() => setMenuOpen(true)}
-      />
-      <SlidingMenu isOpen={menuOpen} onClose={() => setMenuOpen(false)} />
-      <main className="p-4 md:p-6 lg:p-8">
-        <IdleClient />
-        {children}</main>
-    </div>
+    <AlertsProvider>
+      <AlertPreferencesProvider>
+        <div className="min-h-screen bg-[var(--color-background_light)]">
+          <DashboardHeader
+            avatarSrc={user.image || '/favicon.ico'}
+            onMenuClick={() => setMenuOpen(true)}
+          />
+          <SlidingMenu isOpen={menuOpen} onClose={() => setMenuOpen(false)} />
+          <main className="p-4 md:p-6 lg:p-8">
+            <IdleClient />
+            {/* client-side navigation skips the middleware; same rules here */}
+            {canAccessRoute(pathname, roles) ? children : <ForbiddenNotice />}</main>
+        </div>
+      </AlertPreferencesProvider>
+    </AlertsProvider>
   );
 }
@@ -0,0 +1,181 @@
+'use client';
+
+import * as React from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Globe, LogOut, Monitor, RefreshCw, ShieldAlert } from 'lucide-react';
+import { useAlerts } from '@/context/AlertsContext';
+import { formatDuration } from '@/utils/alertsAnalytics';
+import { NEW_DEVICE_ALERT_SOURCE, UserSession, useSessionsApi } from '@/utils/sessionsApi';
+
+const card = 'rounded-md border bg-white p-4 space-y-4';
+
+export default function SessionsPage() {
+  const { t } = useTranslation('common');
+  const sessionsApi = useSessionsApi();
+  const { onAlertsArrived } = useAlerts();
+  // the new-device alert links here with the session it is about
+  const highlight = useSearchParams().get('session');
+
+  const [sessions, setSessions] = React.useState<UserSession[] | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+  const [revokingOthers, setRevokingOthers] = React.useState(false);
+
+  const load = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await sessionsApi.list());
+    } catch {
+      toast.error(t('sessions.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionsApi, t]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  // someone just signed in elsewhere: show it without a manual reload
+  React.useEffect(() => {
+    return onAlertsArrived((items) => {
+      if (items.some((a) => a.source === NEW_DEVICE_ALERT_SOURCE)) load();
+    });
+  }, [onAlertsArrived, load]);
+
+  const revoke = async (s: UserSession) => {
+    setBusyId(s.id);
+    try {
+      await sessionsApi.revoke(s.id);
+      setSessions((prev) => prev?.filter((x) => x.id !== s.id) ?? null);
+      toast.success(t('sessions.revoked'));
+    } catch {
+      toast.error(t('sessions.revokeError'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (!confirm(t('sessions.revokeOthersConfirm'))) return;
+    setRevokingOthers(true);
+    try {
+      await sessionsApi.revokeOthers();
+      setSessions((prev) => prev?.filter((x) => x.current) ?? null);
+      toast.success(t('sessions.revokedOthers'));
+    } catch {
+      toast.error(t('sessions.revokeError'));
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  const others = (sessions ?? []).filter((s) => !s.current).length;
+
+  const lastActive = (s: UserSession) => {
+    if (s.current) return t('sessions.activeNow');
+    if (!s.lastActiveAt) return '—';
+    const ago = Date.now() - new Date(s.lastActiveAt).getTime();
+    return ago < 60_000 ? t('sessions.activeNow') : t('sessions.ago', { time: formatDuration(ago) });
+  };
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">{t('sessions.title')}</h1>
+          <p className="text-sm text-gray-600">{t('sessions.subtitle')}</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium border hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            {t('sessions.refresh')}
+          </button>
+          <button
+            type="button"
+            onClick={revokeOthers}
+            disabled={revokingOthers || others === 0}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition disabled:opacity-50"
+          >
+            <LogOut className="h-4 w-4" />
+            {revokingOthers ? t('sessions.signingOut') : t('sessions.revokeOthers')}
+          </button>
+        </div>
+      </div>
+
+      <section className={card}>
+        {sessions == null ? (
+          <p className="text-sm text-gray-500">{loading ? t('sessions.loading') : t('sessions.loadError')}</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('sessions.empty')}</p>
+        ) : (
+          <ul className="divide-y">
+            {sessions.map((s) => (
+              <li
+                key={s.id}
+                className={`flex flex-wrap items-center gap-4 py-3 ${s.id === highlight ? 'rounded-md bg-amber-50 px-3' : ''}`}
+              >
+                <Monitor className="h-8 w-8 shrink-0 text-gray-500" aria-hidden="true" />
+
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">
+                      {t('sessions.device', {
+                        browser: s.browser ?? t('sessions.unknownBrowser'),
+                        os: s.os ?? t('sessions.unknownOs'),
+                      })}
+                    </span>
+                    {s.current && (
+                      <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                        {t('sessions.current')}
+                      </span>
+                    )}
+                    {s.id === highlight && !s.current && (
+                      <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                        <ShieldAlert className="h-3 w-3" />
+                        {t('sessions.newDevice')}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                    <span className="inline-flex items-center gap-1">
+                      <Globe className="h-3 w-3" />
+                      {[s.location, s.ip].filter(Boolean).join(' · ') || t('sessions.unknownLocation')}
+                    </span>
+                    <span title={s.lastActiveAt ? new Date(s.lastActiveAt).toLocaleString() : undefined}>
+                      {t('sessions.lastActive')}: {lastActive(s)}
+                    </span>
+                    {s.signedInAt && (
+                      <span>
+                        {t('sessions.signedIn')}:&nbsp;
+                        <time dateTime={s.signedInAt}>{new Date(s.signedInAt).toLocaleString()}</time>
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {!s.current && (
+                  <button
+                    type="button"
+                    onClick={() => revoke(s)}
+                    disabled={busyId === s.id}
+                    className="rounded-md border px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {busyId === s.id ? t('sessions.signingOut') : t('sessions.revoke')}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,12 +1,42 @@
 // app/dashboard/types/alerts.ts
 export type Severity = 'info' | 'warning' | 'critical';
 
+/** File hosted on Cloudinary and referenced by an alert */
+export type AlertAttachment = {
+  url: string;
+  name?: string;
+  mimeType?: string;
+  bytes?: number;
+};
+
 export type AlertItem = {
   id: string | number;
   title: string;
   body?: string;
+
   createdAt: string; // ISO
-  severity: Severity;
+  readAt?: string | null;
+  archivedAt?: string | null;
+  expiresAt?: string | null;
+  /** hidden from unread counts until then */
+  snoozedUntil?: string | null;
+
   read?: boolean;
   archived?: boolean;
+
+  /** critical alerts must be acknowledged explicitly (reading them isn't enough) */
+  acknowledgedAt?: string | null;
+  acknowledgedBy?: string | null;
+  acknowledgementComment?: string | null;
+
+  severity: Severity;
+  severityId?: number;
+  severityName?: string;
+  severityRank?: number;
+  colorHex?: string | null;
+
+  source?: string | null;
+  sourceRef?: string | null;
+
+  attachments?: AlertAttachment[];
 };
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import type { UserAccess } from '@/context/authContext';
+import UserDetailsPage from './page';
+
+// stable like the real hooks, so the page's effects run once
+const mocks = vi.hoisted(() => ({
+  access: [] as Array<{ moduleName: string; componentName: string; permissionCode: string }>,
+  api: {
+    get: async () => ({
+      data: { userId: 1, name: 'Ana', surname: 'Silva', email: 'ana@example.com', isActive: true, isMfaEnabled: false },
+    }),
+  },
+  router: { push: () => {}, replace: () => {} },
+  i18n: { t: (key: string) => key, i18n: { language: 'en', changeLanguage: async () => {} } },
+}));
+
+vi.mock('@/context/authContext', () => ({
+  useAuth: () => ({
+    user: { userId: 1 },
+    loaded: true,
+    loading: false,
+    permissionsLoaded: true,
+    access: mocks.access,
+  }),
+}));
+vi.mock('@/utils/api', () => ({ useApi: () => mocks.api }));
+vi.mock('next/navigation', () => ({ useRouter: () => mocks.router }));
+vi.mock('react-i18next', () => ({ useTranslation: () => mocks.i18n }));
+
+// how /auth/permissions files this page: names that slug to /dashboard/users/details
+const grant = (permissionCode: UserAccess['permissionCode']) =>
+  ({ moduleName: 'Users', componentName: 'Details', permissionCode }) as UserAccess;
+
+afterEach(() => {
+  cleanup();
+  mocks.access = [];
+});
+
+describe('UserDetailsPage', () => {
+  it('is blocked without a READ or LIST grant', () => {
+    mocks.access = [grant('EDIT')];
+    render(<UserDetailsPage />);
+    expect(screen.getByText('forbidden.title')).toBeTruthy();
+    expect(screen.queryByText('users.details.title')).toBeNull();
+  });
+
+  it('shows the details but no edit buttons with READ alone', async () => {
+    mocks.access = [grant('READ')];
+    render(<UserDetailsPage />);
+    expect(await screen.findByText('users.details.title')).toBeTruthy();
+    expect(screen.queryByText('common.save')).toBeNull();
+    expect(screen.queryByText('common.reset')).toBeNull();
+    expect(screen.queryByText('users.details.uploadAvatar')).toBeNull();
+  });
+
+  it('shows the edit buttons with EDIT', async () => {
+    mocks.access = [grant('READ'), grant('EDIT')];
+    render(<UserDetailsPage />);
+    expect(await screen.findByText('common.save')).toBeTruthy();
+    expect(screen.getByText('users.details.uploadAvatar')).toBeTruthy();
+  });
+});
@@ -7,6 +7,11 @@ import { useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/button';
+import AuthGuard from '@/components/AuthGuard';
+import Can from '@/components/Can';
+
+// the /auth/permissions entries for this page are the ones that slug to its path
+const PAGE = '/dashboard/users/details';
 
 /** ─────────────────────────────────────────────────────────────────────────────
  *  Options & helpers
@@ -81,7 +86,7 @@ type UserDetails = {
   medicalConditions?: string | null;
 };
 
-export default function UserDetailsPage() {
+function UserDetailsForm() {
   const { t, i18n } = useTranslation('common');
   const api = useApi();
   const router = useRouter();
@@ -246,26 +251,28 @@ export default function UserDetailsPage() {
           <img src={preview || '/avatar-placeholder.png'} alt="avatar" className="w-full h-full object-cover" />
         </div>
         <div className="flex-1">
-          <input
-            type="file"
-            accept="image/*"
-            onChange={e => onFile(e.target.files?.[0] || null)}
-            className="block"
-          />
-          <div className="mt-2 flex gap-2">
-            <Button type="button" onClick={uploadAvatar} disabled={!file || uploading}>
-              {uploading ? t('users.details.uploading') : t('users.details.uploadAvatar')}
-            </Button>
-            {form.profilePictureUrl && (
-              <Button
-                type="button"
-                variant="secondary"
-                onClick={() => { onChange('profilePictureUrl', null); setPreview(null); setFile(null); }}
-              >
-                {t('users.details.removeAvatar')}
+          <Can href={PAGE} code="EDIT">
+            <input
+              type="file"
+              accept="image/*"
+              onChange={e => onFile(e.target.files?.[0] || null)}
+              className="block"
+            />
+            <div className="mt-2 flex gap-2">
+              <Button type="button" onClick={uploadAvatar} disabled={!file || uploading}>
+                {uploading ? t('users.details.uploading') : t('users.details.uploadAvatar')}
               </Button>
-            )}
-          </div>
+              {form.profilePictureUrl && (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => { onChange('profilePictureUrl', null); setPreview(null); setFile(null); }}
+                >
+                  {t('users.details.removeAvatar')}
+                </Button>
+              )}
+            </div>
+          </Can>
         </div>
       </div>
 
@@ -475,14 +482,24 @@ export default function UserDetailsPage() {
         </div>
       </div>
 
-      <div className="flex gap-2">
-        <Button onClick={onSave} disabled={saving}>
-          {saving ? t('common.saving') : t('common.save')}
-        </Button>
-        <Button variant="secondary" onClick={() => setForm(original!)}>
-          {t('common.reset')}
-        </Button>
-      </div>
+      <Can href={PAGE} code="EDIT">
+        <div className="flex gap-2">
+          <Button onClick={onSave} disabled={saving}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+          <Button variant="secondary" onClick={() => setForm(original!)}>
+            {t('common.reset')}
+          </Button>
+        </div>
+      </Can>
     </div>
   );
 }
+
+export default function UserDetailsPage() {
+  return (
+    <AuthGuard href={PAGE}>
+      <UserDetailsForm />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,13 @@
+// app/forbidden/page.tsx
+'use client';
+
+import ForbiddenNotice from '@/components/ForbiddenNotice';
+
+// the middleware rewrites disallowed dashboard URLs here (with a 403 status)
+export default function ForbiddenPage() {
+  return (
+    <main className="min-h-screen bg-[var(--color-background_light)]">
+      <ForbiddenNotice />
+    </main>
+  );
+}
@@ -4,42 +4,34 @@
 import { ReactNode, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
+import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/context/authContext';
+import { hasPermission } from '@/utils/usePermission';
+import ForbiddenNotice from '@/components/ForbiddenNotice';
 
 interface AuthGuardProps {
-  moduleName: string;
-  componentName: string;
+  /** the guarded page's path; its grants are looked up by it (see accessHref) */
+  href: string;
   children: ReactNode;
 }
 
-export default function AuthGuard({
-  moduleName,
-  componentName,
-  children,
-}: AuthGuardProps) {
+export default function AuthGuard({ href, children }: AuthGuardProps) {
+  const { t } = useTranslation('common');
   const router = useRouter();
-  const { user, access } = useAuth();
+  const { user, loaded, access, permissionsLoaded } = useAuth();
 
+  // 1) Not logged in?
   useEffect(() => {
-    // 1) Not logged in?
-    if (!user) {
-      toast.error('Authentication required');
+    if (loaded && !user) {
+      toast.error(t('dummy.authRequired'));
       router.push('/');
-      return;
     }
+  }, [loaded, user, router, t]);
 
-    // 2) Has at least READ or LIST on this component?
-    const has = access.some(
-      (a) =>
-        a.moduleName === moduleName &&
-        a.componentName === componentName &&
-        ['READ', 'LIST'].includes(a.permissionCode)
-    );
-    if (!has) {
-      toast.error('You do not have permission to view this page');
-      router.push('/dashboard');
-    }
-  }, [user, access, moduleName, componentName, router]);
+  if (!user || !permissionsLoaded) return null;
+
+  // 2) Has at least READ or LIST on this component?
+  if (!hasPermission(access, href, ['READ', 'LIST'])) return <ForbiddenNotice />;
 
   return <>{children}</>;
 }
@@ -0,0 +1,21 @@
+// components/Can.tsx
+'use client';
+
+import { ReactNode } from 'react';
+import { usePermission, PermissionCode } from '@/utils/usePermission';
+
+interface CanProps {
+  /** the page the permission belongs to (see accessHref) */
+  href: string;
+  /** any one of them is enough */
+  code: PermissionCode | PermissionCode[];
+  children: ReactNode;
+  /** rendered instead when the permission is missing */
+  fallback?: ReactNode;
+}
+
+/** Renders its children only for users holding the permission */
+export default function Can({ href, code, children, fallback = null }: CanProps) {
+  const allowed = usePermission(href, code);
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+/** 403: shown in place of a page the user's roles don't allow */
+export default function ForbiddenNotice() {
+  const { t } = useTranslation('common');
+
+  return (
+    <div className="flex min-h-[60vh] flex-col items-center justify-center gap-4 p-6 text-center">
+      <ShieldAlert className="h-12 w-12 text-red-600" aria-hidden="true" />
+      <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">403</p>
+      <h1 className="text-2xl font-semibold text-[var(--color-text_dark)]">{t('forbidden.title')}</h1>
+      <p className="max-w-md text-gray-600">{t('forbidden.body')}</p>
+      <Link
+        href="/dashboard"
+        className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition"
+      >
+        {t('forbidden.back')}
+      </Link>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { useTranslation } from 'react-i18next';
 import Image from 'next/image';
 import verificarImg from '@/images/logo_new.png';
 import myb4yImg from '@/images/logo_transparent.png';
+import { useBeep } from '@/utils/notificationSound';
 
 interface SessionExpiryModalProps {
   isOpen: boolean;
@@ -71,60 +72,6 @@ const fractionToColor = (f: number) => {
   }
 };
 
-/* ----------- lightweight audio beeps ----------- */
-function useBeep(enabled: boolean | undefined) {
-  const ctxRef = useRef<AudioContext | null>(null);
-
-  useEffect(() => {
-    if (!enabled) return;
-    // Pre-create IFF allowed; otherwise we'll try on-demand and ignore failures.
-    try {
-      if (typeof window !== 'undefined' && 'AudioContext' in window) {
-        ctxRef.current = new (window.AudioContext as any)();
-      }
-    } catch {
-      // ignore
-    }
-    return () => {
-      try {
-        ctxRef.current?.close();
-      } catch {
-        /* ignore */
-      }
-      ctxRef.current = null;
-    };
-  }, [enabled]);
-
-  const beep = (freq = 880, ms = 120, vol = 0.05) => {
-    if (!enabled) return;
-    try {
-      const ctx = ctxRef.current ?? new (window.AudioContext as any)();
-      ctxRef.current = ctx;
-
-      const osc = ctx.createOscillator();
-      const gain = ctx.createGain();
-
-      osc.frequency.value = freq;
-      gain.gain.value = 0;
-
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-
-      const now = ctx.currentTime;
-      // attack/decay envelope
-      gain.gain.linearRampToValueAtTime(vol, now + 0.01);
-      gain.gain.exponentialRampToValueAtTime(0.0001, now + ms / 1000);
-
-      osc.start(now);
-      osc.stop(now + ms / 1000 + 0.02);
-    } catch {
-      // likely autoplay blocked; ignore silently
-    }
-  };
-
-  return beep;
-}
-
 /* -------------- vibration helper -------------- */
 function vibrate(enabled: boolean | undefined, pattern: number | number[]) {
   if (!enabled) return;
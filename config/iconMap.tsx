@@ -1,4 +1,6 @@
-import { Home, Users, KeyRound, LogOut, Layers, Database, Activity, Settings, ShieldCheck, Box, BellRing } from 'lucide-react';
+import {
+  Home, Users, KeyRound, LogOut, Layers, Database, Activity, Settings, ShieldCheck, Box, BellRing, MonitorSmartphone,
+} from 'lucide-react';
 
 export const moduleIcons: Record<string, React.ReactNode> = {
   Administration: <Home size={20} />,
@@ -16,6 +18,7 @@ export const componentIcons: Record<string, React.ReactNode> = {
   'User details': <Users size={18} />,
   Alerts: <BellRing size={18} />,              // 👈 added icon for Alerts
   'Change password': <KeyRound size={18} />,
+  Sessions: <MonitorSmartphone size={18} />,
   'Log Out': <LogOut size={18} />,
 };
 export const defaultComponentIcon = <Activity size={18} />;
@@ -2,42 +2,46 @@
 
 import React from 'react';
 import { Home, User, Settings, Eye } from 'lucide-react';
+import { routePermission } from '@/config/routePermissions';
 
 export interface MenuItem {
   key: string;
   labelKey: string;        // i18n key under dashboard.menu
   href: string;
   icon: React.ReactNode;
-  allowedRoles: string[];  // roles that may see this item
+  allowedRoles: string[] | null;  // roles that may see this item; null = everyone
 }
 
+// from the route registry, so the menu and the middleware can't disagree
+const rolesFor = (href: string) => routePermission(href)?.roles ?? null;
+
 export const menuItems: MenuItem[] = [
   {
     key: 'home',
     labelKey: 'dashboard.menu.home',
     href: '/dashboard',
     icon: <Home size={20} />,
-    allowedRoles: ['System Administrator', 'club', 'referee', 'league'],
+    allowedRoles: rolesFor('/dashboard'),
   },
   {
     key: 'profile',
     labelKey: 'dashboard.menu.profile',
     href: '/dashboard/profile',
     icon: <User size={20} />,
-    allowedRoles: ['System Administrator', 'club', 'league'],
+    allowedRoles: rolesFor('/dashboard/profile'),
   },
   {
     key: 'settings',
     labelKey: 'dashboard.menu.settings',
     href: '/dashboard/settings',
     icon: <Settings size={20} />,
-    allowedRoles: ['System Administrator', 'league', 'police'],
+    allowedRoles: rolesFor('/dashboard/settings'),
   },
   {
     key: 'watch',
     labelKey: 'dashboard.menu.watch',
     href: '/dashboard/watch',
     icon: <Eye size={20} />,
-    allowedRoles: ['System Administrator', 'watcher'],
+    allowedRoles: rolesFor('/dashboard/watch'),
   },
 ];
@@ -0,0 +1,4 @@
+// config/roles.ts
+
+/** Role codes the backend puts in the access token */
+export const APP_ROLES = ['System Administrator', 'league', 'club', 'referee', 'police', 'watcher'];
@@ -0,0 +1,39 @@
+// config/routePermissions.ts
+import { ALERT_COMPOSER_ROLES } from '@/utils/alertComposer';
+
+/**
+ * Who may open which dashboard page. The middleware enforces it, the dashboard
+ * layout falls back on it and the menus hide what it rules out, so this is the
+ * one place to change. Pages not listed here are open to any signed-in user.
+ */
+export type RoutePermission = {
+  /** the page and everything under it */
+  path: string;
+  /** compared case-insensitively */
+  roles: string[];
+};
+
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { path: '/dashboard/profile', roles: ['System Administrator', 'club', 'league'] },
+  { path: '/dashboard/settings', roles: ['System Administrator', 'league', 'police'] },
+  { path: '/dashboard/watch', roles: ['System Administrator', 'watcher'] },
+  { path: '/dashboard/alerts/compose', roles: ALERT_COMPOSER_ROLES },
+];
+
+export const FORBIDDEN_PATH = '/forbidden';
+
+const under = (pathname: string, path: string) => pathname === path || pathname.startsWith(`${path}/`);
+
+/** The most specific rule covering a path, if any */
+export function routePermission(pathname: string): RoutePermission | undefined {
+  return ROUTE_PERMISSIONS
+    .filter((r) => under(pathname, r.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+export function canAccessRoute(pathname: string, roles: string[]): boolean {
+  const rule = routePermission(pathname);
+  if (!rule) return true;
+  const mine = roles.map((r) => r.toLowerCase());
+  return rule.roles.some((r) => mine.includes(r.toLowerCase()));
+}
@@ -0,0 +1,80 @@
+// context/AlertPreferencesContext.tsx
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useApi } from '@/utils/api';
+import {
+  AlertNotificationPrefs,
+  DEFAULT_NOTIFICATION_PREFS,
+  sanitizeNotificationPrefs,
+} from '@/utils/alertNotificationPrefs';
+import { AlertRetention, DEFAULT_RETENTION, sanitizeRetention } from '@/utils/alertRetention';
+
+interface AlertPreferencesContextType {
+  prefs: AlertNotificationPrefs;
+  /** false until the user's saved preferences arrived (defaults apply meanwhile) */
+  loaded: boolean;
+  save: (prefs: AlertNotificationPrefs) => Promise<boolean>;
+  /** auto-archive / purge rules, applied by the backend */
+  retention: AlertRetention;
+  saveRetention: (retention: AlertRetention) => Promise<boolean>;
+}
+
+const AlertPreferencesContext = createContext<AlertPreferencesContextType | undefined>(undefined);
+
+export const useAlertPreferences = (): AlertPreferencesContextType => {
+  const ctx = useContext(AlertPreferencesContext);
+  if (!ctx) throw new Error('useAlertPreferences must be used within AlertPreferencesProvider');
+  return ctx;
+};
+
+const ENDPOINT = '/alerts/notification-preferences';
+const RETENTION_ENDPOINT = '/alerts/retention';
+
+export const AlertPreferencesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const api = useApi();
+  const [prefs, setPrefs] = useState<AlertNotificationPrefs>(DEFAULT_NOTIFICATION_PREFS);
+  const [retention, setRetention] = useState<AlertRetention>(DEFAULT_RETENTION);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    // never saved (404) or offline — keep defaults
+    const loadPrefs = api.get(ENDPOINT)
+      .then((res) => { if (!cancelled) setPrefs(sanitizeNotificationPrefs(res.data)); })
+      .catch(() => {});
+    const loadRetention = api.get(RETENTION_ENDPOINT)
+      .then((res) => { if (!cancelled) setRetention(sanitizeRetention(res.data)); })
+      .catch(() => {});
+    Promise.all([loadPrefs, loadRetention]).finally(() => { if (!cancelled) setLoaded(true); });
+    return () => { cancelled = true; };
+  }, [api]);
+
+  const save = useCallback(async (next: AlertNotificationPrefs) => {
+    const clean = sanitizeNotificationPrefs(next);
+    try {
+      await api.put(ENDPOINT, clean);
+      setPrefs(clean);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [api]);
+
+  const saveRetention = useCallback(async (next: AlertRetention) => {
+    const clean = sanitizeRetention(next);
+    try {
+      await api.put(RETENTION_ENDPOINT, clean);
+      setRetention(clean);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [api]);
+
+  return (
+    <AlertPreferencesContext.Provider value={{ prefs, loaded, save, retention, saveRetention }}>
+      {children}
+    </AlertPreferencesContext.Provider>
+  );
+};
@@ -0,0 +1,635 @@
+// context/AlertsContext.tsx
+'use client';
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import { useApi } from '@/utils/api';
+import { useAlertsHub, AlertsHubEvent, AlertsHubStatus } from '@/utils/alertsSocket';
+import { useAlertsApi, parseAlert, parseAlertRef } from '@/utils/alertsApi';
+import {
+  OutboxEntry, OutboxOp, isOfflineError, outboxRetryDelay, opRequest,
+  outboxEntries, enqueueOutbox, updateOutboxEntry, removeOutboxEntry,
+} from '@/utils/alertsOffline';
+import { needsAck } from '@/utils/alertsFilters';
+import { useAuth } from '@/context/authContext';
+import type { AlertItem } from '@/app/dashboard/types/alerts';
+
+/* ----------------- helpers ----------------- */
+
+export const alertKey = (id: string | number) => String(id);
+
+export const isSnoozed = (a: AlertItem) => !!a.snoozedUntil;
+
+/** Counts towards the bell badge (snoozed alerts are kept out until they resurface) */
+export const isUnread = (a: AlertItem) => !a.read && !a.archived && !isSnoozed(a);
+
+/* ----------------- store ----------------- */
+
+type StoreState = {
+  byId: Record<string, AlertItem>;
+  /** newest alerts shown by the bell */
+  summaryIds: string[];
+  unreadCount: number;
+  summaryLoaded: boolean;
+};
+
+type Action =
+  | { type: 'upsert'; items: AlertItem[] }
+  | { type: 'summary'; unreadCount: number; items: AlertItem[]; unacknowledged: AlertItem[] }
+  | { type: 'arrived'; item: AlertItem }
+  | { type: 'resurfaced'; ids: string[] }
+  | { type: 'patch'; ids: string[]; patch: (a: AlertItem) => AlertItem; unreadCount?: number }
+  | { type: 'rollback'; items: AlertItem[]; unreadCount?: number };
+
+const SUMMARY_MAX = 12;
+
+function sameAlert(a: AlertItem | undefined, b: AlertItem) {
+  if (!a) return false;
+  return (Object.keys(b) as (keyof AlertItem)[]).every((k) => a[k] === b[k]);
+}
+
+/** Lighter payloads (summary, hub) must not wipe fields a richer one already filled in */
+function mergeAlert(prev: AlertItem | undefined, next: AlertItem): AlertItem {
+  if (!prev) return next;
+  const out = { ...prev } as Record<string, unknown>;
+  Object.entries(next).forEach(([k, v]) => { if (v !== undefined) out[k] = v; });
+  return out as AlertItem;
+}
+
+/** Replaces entities and moves the unread counter by however many flipped state */
+function applyItems(state: StoreState, items: AlertItem[], unreadCount?: number): StoreState {
+  let delta = 0;
+  let changed = false;
+  const byId = { ...state.byId };
+
+  items.forEach((item) => {
+    const key = alertKey(item.id);
+    const prev = byId[key];
+    const next = mergeAlert(prev, item);
+    if (sameAlert(prev, next)) return;
+    if (prev) delta += (isUnread(next) ? 1 : 0) - (isUnread(prev) ? 1 : 0);
+    byId[key] = next;
+    changed = true;
+  });
+
+  const count = unreadCount ?? Math.max(0, state.unreadCount + delta);
+  if (!changed && count === state.unreadCount) return state;
+  return { ...state, byId, unreadCount: count };
+}
+
+function reducer(state: StoreState, action: Action): StoreState {
+  switch (action.type) {
+    case 'upsert':
+      return applyItems(state, action.items);
+
+    case 'summary': {
+      const byId = { ...state.byId };
+      [...action.unacknowledged, ...action.items].forEach((it) => {
+        const key = alertKey(it.id);
+        const next = mergeAlert(byId[key], it);
+        if (!sameAlert(byId[key], next)) byId[key] = next;
+      });
+      const summaryIds = action.items.map((it) => alertKey(it.id));
+      const sameIds =
+        summaryIds.length === state.summaryIds.length &&
+        summaryIds.every((id, i) => id === state.summaryIds[i]);
+      const sameEntities = [...action.unacknowledged, ...action.items]
+        .every((it) => byId[alertKey(it.id)] === state.byId[alertKey(it.id)]);
+
+      // Only commit if actually changed — avoids render "blink"
+      if (state.summaryLoaded && sameIds && sameEntities && action.unreadCount === state.unreadCount) return state;
+      return { byId, summaryIds, unreadCount: action.unreadCount, summaryLoaded: true };
+    }
+
+    case 'arrived': {
+      const key = alertKey(action.item.id);
+      if (state.byId[key]) return applyItems(state, [action.item]);
+      return {
+        ...state,
+        byId: { ...state.byId, [key]: action.item },
+        summaryIds: [key, ...state.summaryIds].slice(0, SUMMARY_MAX),
+        unreadCount: state.unreadCount + (isUnread(action.item) ? 1 : 0),
+      };
+    }
+
+    case 'resurfaced': {
+      // snooze is over: back in the unread count and at the top of the bell
+      const items = action.ids
+        .map((id) => state.byId[id])
+        .filter((a): a is AlertItem => !!a)
+        .map((a) => ({ ...a, snoozedUntil: null }));
+      const next = applyItems(state, items);
+      return {
+        ...next,
+        summaryIds: [...action.ids, ...state.summaryIds.filter((id) => !action.ids.includes(id))].slice(0, SUMMARY_MAX),
+      };
+    }
+
+    case 'patch': {
+      const items = action.ids
+        .map((id) => state.byId[id])
+        .filter((a): a is AlertItem => !!a)
+        .map(action.patch);
+      return applyItems(state, items, action.unreadCount);
+    }
+
+    case 'rollback':
+      return applyItems(state, action.items, action.unreadCount);
+  }
+}
+
+/* ----------------- context ----------------- */
+
+type ArrivalListener = (items: AlertItem[]) => void;
+
+export type AlertMutation = 'markRead' | 'markUnread' | 'archive' | 'unarchive' | 'unsnooze';
+
+/** true: saved; false: rejected (and rolled back); 'queued': offline, kept in the outbox until it can be sent */
+export type MutationResult = boolean | 'queued';
+
+interface AlertsContextType {
+  byId: Record<string, AlertItem>;
+  /** bell items, newest first (archived and snoozed ones dropped) */
+  summary: AlertItem[];
+  /** critical alerts nobody has acknowledged yet, newest first */
+  unacknowledged: AlertItem[];
+  unreadCount: number;
+  summaryLoaded: boolean;
+  hubStatus: AlertsHubStatus;
+  /** alerts with actions still waiting in the offline outbox */
+  pendingIds: ReadonlySet<string>;
+
+  getAlert: (id: string | number) => AlertItem | undefined;
+  upsert: (items: AlertItem[]) => void;
+  refreshSummary: () => Promise<void>;
+  /** Called with alerts the store learns about for the first time (push or poll) */
+  onAlertsArrived: (listener: ArrivalListener) => () => void;
+  /** Called with snoozed alerts whose snooze just ended */
+  onAlertsResurfaced: (listener: ArrivalListener) => () => void;
+
+  /** Optimistic; resolves false (after rolling back) when the backend rejects it */
+  mutate: (action: AlertMutation, ids: Array<string | number>) => Promise<MutationResult>;
+  snooze: (ids: Array<string | number>, until: Date) => Promise<MutationResult>;
+  /** Records who acknowledged and when; also marks the alerts read */
+  acknowledge: (ids: Array<string | number>, comment?: string) => Promise<MutationResult>;
+  markAllRead: () => Promise<boolean>;
+  archiveAll: () => Promise<boolean>;
+}
+
+const AlertsContext = createContext<AlertsContextType | undefined>(undefined);
+
+export const useAlerts = (): AlertsContextType => {
+  const ctx = useContext(AlertsContext);
+  if (!ctx) throw new Error('useAlerts must be used within AlertsProvider');
+  return ctx;
+};
+
+function patchFor(action: AlertMutation, now = new Date().toISOString()): (a: AlertItem) => AlertItem {
+  switch (action) {
+    case 'markRead':   return (a) => (a.read ? a : { ...a, read: true, readAt: now });
+    case 'markUnread': return (a) => (!a.read ? a : { ...a, read: false, readAt: null });
+    case 'archive':    return (a) => (a.archived ? a : { ...a, archived: true, archivedAt: now });
+    case 'unarchive':  return (a) => (!a.archived ? a : { ...a, archived: false, archivedAt: null });
+    case 'unsnooze':   return (a) => (!a.snoozedUntil ? a : { ...a, snoozedUntil: null });
+  }
+}
+
+function opPatch(op: OutboxOp): (a: AlertItem) => AlertItem {
+  switch (op.kind) {
+    case 'mutation': return patchFor(op.action, op.at);
+    case 'snooze':   return (a) => ({ ...a, snoozedUntil: op.until });
+    case 'ack':      return (a) => ({
+      ...a,
+      acknowledgedAt: op.at,
+      acknowledgedBy: op.by,
+      acknowledgementComment: op.comment,
+      read: true,
+      readAt: a.readAt ?? op.at,
+    });
+  }
+}
+
+function toNumberId(id: string | number) {
+  const n = Number(id);
+  return Number.isFinite(n) ? n : 0;
+}
+
+interface ProviderProps {
+  children: ReactNode;
+  /** Summary polling interval (ms) while the alerts hub is unreachable. Default: 30s */
+  refreshMs?: number;
+}
+
+export const AlertsProvider: React.FC<ProviderProps> = ({ children, refreshMs = 30_000 }) => {
+  const api = useApi();
+  const alertsApi = useAlertsApi();
+  const { user } = useAuth();
+  const userId = user?.userId;
+  const userName = [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.email || null;
+
+  const [state, dispatch] = useReducer(reducer, {
+    byId: {},
+    summaryIds: [],
+    unreadCount: 0,
+    summaryLoaded: false,
+  });
+
+  // latest state for optimistic snapshots taken outside of render
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // actions made offline, oldest first; persisted in IndexedDB until the backend has them
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const outboxRef = useRef(outbox);
+  outboxRef.current = outbox;
+
+  const pendingIds = useMemo(
+    () => new Set(outbox.flatMap((e) => e.ids.map(alertKey))),
+    [outbox]
+  );
+
+  // server copies don't know about queued actions yet: replay them on top
+  const withPending = useCallback((items: AlertItem[]) => {
+    const queue = outboxRef.current;
+    if (queue.length === 0) return items;
+    return items.map((item) => {
+      const key = alertKey(item.id);
+      return queue.reduce((a, e) => (e.ids.some((id) => alertKey(id) === key) ? opPatch(e.op)(a) : a), item);
+    });
+  }, []);
+
+  const arrivalListeners = useRef(new Set<ArrivalListener>());
+  const emitArrivals = useCallback((items: AlertItem[]) => {
+    if (items.length === 0) return;
+    arrivalListeners.current.forEach((l) => l(items));
+  }, []);
+
+  const onAlertsArrived = useCallback((listener: ArrivalListener) => {
+    arrivalListeners.current.add(listener);
+    return () => { arrivalListeners.current.delete(listener); };
+  }, []);
+
+  const resurfaceListeners = useRef(new Set<ArrivalListener>());
+  const onAlertsResurfaced = useCallback((listener: ArrivalListener) => {
+    resurfaceListeners.current.add(listener);
+    return () => { resurfaceListeners.current.delete(listener); };
+  }, []);
+
+  /* ---- summary (bell) ---- */
+
+  const loadingRef = useRef(false);
+  const didFirstLoadRef = useRef(false);
+  const lastMaxIdRef = useRef(0);
+
+  const refreshSummary = useCallback(async () => {
+    // prevent overlapping fetches (another cause of flicker)
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+
+    try {
+      const res = await alertsApi.summary(SUMMARY_MAX);
+      const items = withPending(res.items);
+      const { unreadCount } = res;
+
+      dispatch({ type: 'summary', unreadCount, items, unacknowledged: withPending(res.unacknowledged) });
+
+      // Detect arrivals after first load only
+      const maxId = Math.max(0, ...items.map((it) => toNumberId(it.id)));
+      if (didFirstLoadRef.current) {
+        emitArrivals(items.filter((it) => toNumberId(it.id) > lastMaxIdRef.current));
+      } else {
+        didFirstLoadRef.current = true;
+      }
+      lastMaxIdRef.current = Math.max(lastMaxIdRef.current, maxId);
+    } catch {
+      // silent — keep prior summary (no clearing = no blink)
+    } finally {
+      loadingRef.current = false;
+    }
+  }, [alertsApi, emitArrivals, withPending]);
+
+  /* ---- live push ---- */
+
+  const onHubEvent = useCallback((evt: AlertsHubEvent, payload: unknown) => {
+    const ref = parseAlertRef(payload);
+    if (!ref) return;
+
+    const key = alertKey(ref.id);
+    const known = stateRef.current.byId[key];
+
+    if (evt === 'AlertCreated') {
+      const item = parseAlert(payload);
+      if (known || !item) return;
+      dispatch({ type: 'arrived', item });
+      lastMaxIdRef.current = Math.max(lastMaxIdRef.current, toNumberId(item.id));
+      emitArrivals([item]);
+      return;
+    }
+
+    if (!known) {
+      // not in our window: we can't tell how the unread count moved, so ask the server
+      refreshSummary();
+      return;
+    }
+
+    if (evt === 'AlertArchived') {
+      const archivedAt = ref.archivedAt ?? new Date().toISOString();
+      dispatch({ type: 'upsert', items: [{ ...known, archived: true, archivedAt }] });
+      return;
+    }
+
+    const item = parseAlert(payload);
+    if (item) dispatch({ type: 'upsert', items: withPending([{ ...known, ...item }]) });
+    else refreshSummary();
+  }, [emitArrivals, refreshSummary, withPending]);
+
+  const hubStatus = useAlertsHub(onHubEvent);
+  const hubConnected = hubStatus === 'connected';
+
+  // Resync once whenever the hub (re)connects — we may have missed pushes meanwhile
+  useEffect(() => {
+    if (hubConnected) refreshSummary();
+  }, [hubConnected, refreshSummary]);
+
+  // Polling + visibility-aware restart (fallback while the hub is unreachable)
+  useEffect(() => {
+    if (hubConnected) return;
+
+    let timer: number | null = null;
+    let stopped = false;
+
+    const start = async () => {
+      await refreshSummary();
+      if (stopped) return;
+      timer = window.setInterval(refreshSummary, refreshMs);
+    };
+
+    const stop = () => {
+      if (timer !== null) {
+        window.clearInterval(timer);
+        timer = null;
+      }
+    };
+
+    const onVisibility = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        stop();
+        refreshSummary().finally(() => {
+          if (!stopped) timer = window.setInterval(refreshSummary, refreshMs);
+        });
+      }
+    };
+
+    start();
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      stopped = true;
+      stop();
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, [refreshSummary, refreshMs, hubConnected]);
+
+  /* ---- optimistic mutations ---- */
+
+  const upsert = useCallback((items: AlertItem[]) => dispatch({ type: 'upsert', items: withPending(items) }), [withPending]);
+
+  const getAlert = useCallback((id: string | number) => stateRef.current.byId[alertKey(id)], []);
+
+  // what the store looked like before a queued action, in case the backend refuses it later
+  const outboxSnapshots = useRef(new Map<number, AlertItem[]>());
+
+  const runOptimistic = useCallback(async (ids: Array<string | number>, op: OutboxOp): Promise<MutationResult> => {
+    const keys = ids.map(alertKey);
+    const snapshot = keys.map((k) => stateRef.current.byId[k]).filter((a): a is AlertItem => !!a);
+
+    dispatch({ type: 'patch', ids: keys, patch: opPatch(op) });
+
+    // once something is queued, later actions queue behind it so they reach the server in order
+    if (outboxRef.current.length === 0) {
+      try {
+        const [endpoint, body] = opRequest(op, ids);
+        await api.post(endpoint, body);
+        // ids we had never seen may have moved the unread counter
+        if (snapshot.length < keys.length) refreshSummary();
+        return true;
+      } catch (err) {
+        if (!isOfflineError(err) || userId == null) {
+          dispatch({ type: 'rollback', items: snapshot });
+          return false;
+        }
+      }
+    }
+
+    if (userId == null) {
+      dispatch({ type: 'rollback', items: snapshot });
+      return false;
+    }
+    try {
+      const entry = await enqueueOutbox({ userId, op, ids, createdAt: new Date().toISOString(), attempts: 0 });
+      outboxSnapshots.current.set(entry.id, snapshot);
+      setOutbox((prev) => [...prev, entry]);
+      return 'queued';
+    } catch {
+      // no IndexedDB (private mode, quota): nothing to keep it in
+      dispatch({ type: 'rollback', items: snapshot });
+      return false;
+    }
+  }, [api, refreshSummary, userId]);
+
+  const mutate = useCallback(
+    (action: AlertMutation, ids: Array<string | number>) =>
+      runOptimistic(ids, { kind: 'mutation', action, at: new Date().toISOString() }),
+    [runOptimistic]
+  );
+
+  const snooze = useCallback(
+    (ids: Array<string | number>, until: Date) => runOptimistic(ids, { kind: 'snooze', until: until.toISOString() }),
+    [runOptimistic]
+  );
+
+  const acknowledge = useCallback(
+    (ids: Array<string | number>, comment?: string) =>
+      runOptimistic(ids, { kind: 'ack', at: new Date().toISOString(), by: userName, comment: comment?.trim() || null }),
+    [runOptimistic, userName]
+  );
+
+  /* ---- offline outbox ---- */
+
+  const flushingRef = useRef(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+
+  // sends queued actions in order; stops at the first one that still can't get through
+  const flushOutbox = useCallback(async () => {
+    if (flushingRef.current || outboxRef.current.length === 0) return;
+    flushingRef.current = true;
+    setRetryAt(null);
+
+    let refused = false;
+    try {
+      for (const entry of outboxRef.current) {
+        try {
+          const [endpoint, body] = opRequest(entry.op, entry.ids);
+          await api.post(endpoint, body);
+        } catch (err) {
+          if (isOfflineError(err)) {
+            const next = { ...entry, attempts: entry.attempts + 1 };
+            await updateOutboxEntry(next).catch(() => {});
+            setOutbox((prev) => prev.map((e) => (e.id === entry.id ? next : e)));
+            setRetryAt(Date.now() + outboxRetryDelay(next.attempts));
+            return;
+          }
+          // the backend refused it: undo what we showed, as an online failure would have
+          refused = true;
+          const snapshot = outboxSnapshots.current.get(entry.id);
+          if (snapshot) dispatch({ type: 'rollback', items: snapshot });
+        }
+        await removeOutboxEntry(entry.id).catch(() => {});
+        outboxSnapshots.current.delete(entry.id);
+        setOutbox((prev) => prev.filter((e) => e.id !== entry.id));
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+    // counts and anything we couldn't roll back from memory
+    if (refused) refreshSummary();
+  }, [api, refreshSummary]);
+
+  // pick up what an earlier session left behind
+  useEffect(() => {
+    if (userId == null) return;
+    let cancelled = false;
+    outboxEntries(userId)
+      .then((entries) => {
+        if (cancelled || entries.length === 0) return;
+        outboxRef.current = entries;
+        setOutbox(entries);
+        dispatch({ type: 'upsert', items: withPending(Object.values(stateRef.current.byId)) });
+        flushOutbox();
+      })
+      .catch(() => { /* no IndexedDB: nothing was queued */ });
+    return () => { cancelled = true; };
+  }, [userId, withPending, flushOutbox]);
+
+  // retry with backoff, and straight away when the browser or the hub says we're back
+  useEffect(() => {
+    if (retryAt == null) return;
+    const timer = window.setTimeout(flushOutbox, Math.max(0, retryAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [retryAt, flushOutbox]);
+
+  useEffect(() => {
+    window.addEventListener('online', flushOutbox);
+    return () => window.removeEventListener('online', flushOutbox);
+  }, [flushOutbox]);
+
+  useEffect(() => {
+    if (hubConnected) flushOutbox();
+  }, [hubConnected, flushOutbox]);
+
+  // a freshly queued action: the connection may already be back
+  useEffect(() => {
+    if (outbox.length > 0 && retryAt == null && !flushingRef.current) {
+      setRetryAt(Date.now() + outboxRetryDelay(Math.max(1, outbox[0].attempts)));
+    }
+  }, [outbox, retryAt]);
+
+  /* ---- snooze wake-up ---- */
+
+  // one timer for the earliest snooze we know of; re-armed whenever the store changes
+  const nextWake = useMemo(() => {
+    let min = Infinity;
+    Object.values(state.byId).forEach((a) => {
+      if (!a.snoozedUntil) return;
+      const at = new Date(a.snoozedUntil).getTime();
+      if (at < min) min = at;
+    });
+    return min;
+  }, [state.byId]);
+
+  useEffect(() => {
+    if (!Number.isFinite(nextWake)) return;
+    // setTimeout overflows past ~24.8 days; waking early just re-arms
+    const delay = Math.min(Math.max(0, nextWake - Date.now()), 86_400_000);
+    const timer = window.setTimeout(() => {
+      const now = Date.now();
+      const due = Object.values(stateRef.current.byId).filter(
+        (a) => a.snoozedUntil && new Date(a.snoozedUntil).getTime() <= now
+      );
+      if (due.length === 0) return;
+      dispatch({ type: 'resurfaced', ids: due.map((a) => alertKey(a.id)) });
+      const woken = due.map((a) => ({ ...a, snoozedUntil: null }));
+      resurfaceListeners.current.forEach((l) => l(woken));
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [nextWake]);
+
+  const mutateAll = useCallback(async (action: 'markRead' | 'archive', endpoint: string) => {
+    const prevCount = stateRef.current.unreadCount;
+    const keys = Object.keys(stateRef.current.byId);
+    const snapshot = keys.map((k) => stateRef.current.byId[k]);
+
+    dispatch({ type: 'patch', ids: keys, patch: patchFor(action), unreadCount: 0 });
+    try {
+      await api.post(endpoint, {});
+      return true;
+    } catch {
+      dispatch({ type: 'rollback', items: snapshot, unreadCount: prevCount });
+      return false;
+    }
+  }, [api]);
+
+  const markAllRead = useCallback(() => mutateAll('markRead', '/alerts/mark-all-read'), [mutateAll]);
+  const archiveAll = useCallback(() => mutateAll('archive', '/alerts/archive-all'), [mutateAll]);
+
+  const summary = useMemo(
+    () => state.summaryIds
+      .map((id) => state.byId[id])
+      .filter((a): a is AlertItem => !!a && !a.archived && !isSnoozed(a)),
+    [state.summaryIds, state.byId]
+  );
+
+  // anything in the store counts, not just the summary window
+  const unacknowledged = useMemo(
+    () => Object.values(state.byId)
+      .filter(needsAck)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    [state.byId]
+  );
+
+  return (
+    <AlertsContext.Provider
+      value={{
+        byId: state.byId,
+        summary,
+        unacknowledged,
+        unreadCount: state.unreadCount,
+        summaryLoaded: state.summaryLoaded,
+        hubStatus,
+        pendingIds,
+        getAlert,
+        upsert,
+        refreshSummary,
+        onAlertsArrived,
+        onAlertsResurfaced,
+        mutate,
+        snooze,
+        acknowledge,
+        markAllRead,
+        archiveAll,
+      }}
+    >
+      {children}
+    </AlertsContext.Provider>
+  );
+};
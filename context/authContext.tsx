@@ -6,12 +6,15 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useCallback,
+  useRef,
   ReactNode,
 } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
 import { useTranslation } from 'react-i18next';
-import { useApi } from '@/utils/api';
+import { useApi, refreshSession, onSessionRefreshed, onSessionExpired, isRefreshRefused } from '@/utils/api';
+import { clearAlertsOfflineData, outboxEntries, sendOutboxBeforeSignOut } from '@/utils/alertsOffline';
 
 export interface UserProfile {
   userId: number;
@@ -42,7 +45,10 @@ interface AuthContextType {
   user: UserProfile | null;
   topEntity: TopEntity | null;
   roles: string[];
+  /** CREATE/READ/… grants per module and component, from GET /auth/permissions */
   access: UserAccess[];
+  /** false until the grants for this session are known */
+  permissionsLoaded: boolean;
   expiresAt: number;
   onLogin: (
     user: UserProfile,
@@ -63,15 +69,17 @@ export const useAuth = (): AuthContextType => {
   return ctx;
 };
 
-type RefreshResponse = {
-  user: {
-    userId: number;
-    email: string;
-    name: string;
-    profilePictureUrl?: string | null;
-    roles: string[];
-  };
-  expires: string;
+// renew the access token this long before it runs out
+const REFRESH_AHEAD_MS = 60_000;
+// after a refresh that couldn't get through (offline, 5xx)
+const REFRESH_RETRY_MS = 30_000;
+
+const PERMISSION_CODES: UserAccess['permissionCode'][] = ['CREATE', 'READ', 'EDIT', 'DELETE', 'LIST'];
+
+const isUserAccess = (a: unknown): a is UserAccess => {
+  const r = a as Partial<UserAccess> | null;
+  return !!r && typeof r.moduleName === 'string' && typeof r.componentName === 'string'
+    && PERMISSION_CODES.includes(r.permissionCode as UserAccess['permissionCode']);
 };
 
 const splitName = (full: string) => {
@@ -93,6 +101,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [topEntity, setTopEntity] = useState<TopEntity | null>(null);
   const [roles, setRoles] = useState<string[]>([]);
   const [access, setAccess] = useState<UserAccess[]>([]);
+  const [permissionsLoaded, setPermissionsLoaded] = useState(false);
   const [expiresAt, setExpiresAt] = useState<number>(0);
 
   // Utility to safely parse JSON
@@ -118,51 +127,70 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setTopEntity(ste);
       setRoles(sr);
       setAccess(sa);
+      setPermissionsLoaded(true); // the cached grants do until the refresh below reloads them
       setExpiresAt(se);
     } else {
       sessionStorage.clear();
     }
 
-    // Silent refresh and load current user (new API returns user + expires)
-    (async () => {
-      try {
-        const jwtRes = await api.post<RefreshResponse>('/auth/refresh');
-        const u = jwtRes.data.user;
-        const { firstName, lastName } = splitName(u.name);
-        const profile: UserProfile = {
-          userId: u.userId,
-          firstName,
-          lastName,
-          image: u.profilePictureUrl || '',
-          email: u.email,
-        };
-
-        const newExp = new Date(jwtRes.data.expires).getTime();
-        setUser(profile);
-        setTopEntity(null);      // no longer provided by backend
-        setRoles(u.roles || []);
-        setAccess([]);           // no longer provided by backend
-        setExpiresAt(newExp);
-
-        sessionStorage.setItem('user', JSON.stringify(profile));
-        sessionStorage.setItem('topEntity', JSON.stringify(null));
-        sessionStorage.setItem('roles', JSON.stringify(u.roles || []));
-        sessionStorage.setItem('access', JSON.stringify([]));
-        sessionStorage.setItem('expiresAt', newExp.toString());
-      } catch {
+    // Silent refresh and load current user (the refreshed listener below stores it)
+    refreshSession()
+      .catch(() => {
         sessionStorage.clear();
         setUser(null);
         setTopEntity(null);
         setRoles([]);
         setAccess([]);
+        setPermissionsLoaded(false);
         setExpiresAt(0);
-      } finally {
+      })
+      .finally(() => {
         setLoading(false);
         setLoaded(true);
-      }
-    })();
+      });
+  }, []);
+
+  // The backend no longer puts grants in the login/refresh payloads; they come separately
+  const loadPermissions = useCallback(async () => {
+    try {
+      const res = await api.get<unknown>('/auth/permissions');
+      const list = Array.isArray(res.data) ? res.data.filter(isUserAccess) : [];
+      setAccess(list);
+      sessionStorage.setItem('access', JSON.stringify(list));
+    } catch {
+      // keep what we had; with nothing cached, guarded pages stay closed
+    } finally {
+      setPermissionsLoaded(true);
+    }
   }, [api]);
 
+  // Every successful refresh (ours, a 401 retry, the proactive timer) lands here
+  useEffect(() => onSessionRefreshed((session) => {
+    const u = session.user;
+    const { firstName, lastName } = splitName(u.name);
+    const profile: UserProfile = {
+      userId: u.userId,
+      firstName,
+      lastName,
+      image: u.profilePictureUrl || '',
+      email: u.email,
+    };
+
+    const newExp = new Date(session.expires).getTime();
+    setUser(profile);
+    setTopEntity(null);      // no longer provided by backend
+    setRoles(u.roles || []);
+    setExpiresAt(newExp);
+
+    sessionStorage.setItem('user', JSON.stringify(profile));
+    sessionStorage.setItem('topEntity', JSON.stringify(null));
+    sessionStorage.setItem('roles', JSON.stringify(u.roles || []));
+    sessionStorage.setItem('expiresAt', newExp.toString());
+
+    // roles may have changed with the new token
+    loadPermissions();
+  }), [loadPermissions]);
+
   const onLogin = (
     u: UserProfile,
     te: TopEntity | null,
@@ -183,54 +211,49 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     sessionStorage.setItem('roles', JSON.stringify(r));
     sessionStorage.setItem('access', JSON.stringify(ac));
     sessionStorage.setItem('expiresAt', expiry.toString());
+
+    setPermissionsLoaded(false);
+    loadPermissions();
   };
 
   const refreshAccessToken = async () => {
     if (!user) return;
 
     try {
-      const jwtRes = await api.post<RefreshResponse>('/auth/refresh');
-      const u = jwtRes.data.user;
-      const { firstName, lastName } = splitName(u.name);
-      const profile: UserProfile = {
-        userId: u.userId,
-        firstName,
-        lastName,
-        image: u.profilePictureUrl || '',
-        email: u.email,
-      };
-
-      const newExp = new Date(jwtRes.data.expires).getTime();
-
-      setUser(profile);
-      setTopEntity(null);
-      setRoles(u.roles || []);
-      setAccess([]);
-      setExpiresAt(newExp);
-
-      sessionStorage.setItem('user', JSON.stringify(profile));
-      sessionStorage.setItem('topEntity', JSON.stringify(null));
-      sessionStorage.setItem('roles', JSON.stringify(u.roles || []));
-      sessionStorage.setItem('access', JSON.stringify([]));
-      sessionStorage.setItem('expiresAt', newExp.toString());
-
+      await refreshSession();
       toast.info(t('sessionRefreshed'));
     } catch {
-      // ignore
+      // a refused refresh logs out through onSessionExpired
     }
   };
 
+  // one logout at a time: a request the ending session refuses would otherwise start another
+  const loggingOutRef = useRef(false);
+
   const performLogout = async (reason: 'expiry' | 'inactivity') => {
+    if (loggingOutRef.current) return;
+    loggingOutRef.current = true;
+
+    // alert actions queued offline get sent while the session can still carry them
+    let unsent = 0;
+    if (user) {
+      unsent = reason === 'expiry'
+        ? await outboxEntries(user.userId).then((e) => e.length, () => 0)
+        : await sendOutboxBeforeSignOut(api, user.userId);
+    }
+
     try {
       await api.post('/auth/logout');
     } catch {
       /* silent */
     } finally {
       sessionStorage.clear();
+      clearAlertsOfflineData().catch(() => {});
       setUser(null);
       setTopEntity(null);
       setRoles([]);
       setAccess([]);
+      setPermissionsLoaded(false);
       setExpiresAt(0);
 
       // Cross-tab: notify other tabs to logout
@@ -241,24 +264,32 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           ? t('sessionWarningModal.inactivityToast')
           : t('sessionWarningModal.expiredToast')
       );
+      if (unsent) toast.warning(t('offline.discardedOnSignOut', { count: unsent }));
       router.push('/');
+      loggingOutRef.current = false;
     }
   };
 
   const logout = () => performLogout('inactivity');
 
-  // Enforce server-side expiry: logout exactly when the backend says so
+  // Only a refresh the backend refuses ends the session; network hiccups don't
   useEffect(() => {
-    if (!expiresAt) return;
+    if (!loaded || !user) return;
+    return onSessionExpired(() => performLogout('expiry'));
+  }, [loaded, user]);
 
-    if (expiresAt <= Date.now()) {
-      performLogout('expiry');
-      return;
-    }
+  // Renew shortly before the server-side expiry, retrying while it can't get through
+  useEffect(() => {
+    if (!expiresAt) return;
 
-    const ms = Math.max(0, expiresAt - Date.now());
-    const timer = window.setTimeout(() => performLogout('expiry'), ms);
-    return () => clearTimeout(timer);
+    let timer: number | undefined;
+    const attempt = () => {
+      refreshSession().catch((err) => {
+        if (!isRefreshRefused(err)) timer = window.setTimeout(attempt, REFRESH_RETRY_MS);
+      });
+    };
+    timer = window.setTimeout(attempt, Math.max(0, expiresAt - REFRESH_AHEAD_MS - Date.now()));
+    return () => window.clearTimeout(timer);
   }, [expiresAt]); // re-schedule whenever the server updates expiry
 
   return (
@@ -270,6 +301,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         topEntity,
         roles,
         access,
+        permissionsLoaded,
         expiresAt,
         onLogin,
         refreshAccessToken,
@@ -1,37 +1,40 @@
 // middleware.ts
 import { NextResponse, NextRequest } from 'next/server';
+import { ACCESS_TOKEN_CONFIG_ERROR, accessTokenConfigured, verifyAccessToken } from '@/utils/accessToken';
+import { canAccessRoute, FORBIDDEN_PATH } from '@/config/routePermissions';
 
-// Parse a JWT without verifying the signature (good enough to check exp)
-function parseJwt(token: string) {
-  try {
-    const payload = token.split('.')[1];
-    const json = Buffer.from(payload.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString();
-    return JSON.parse(json);
-  } catch {
-    return null;
-  }
+const matches = (pathname: string, prefix: string) => pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+function redirectTo(req: NextRequest, pathname: string) {
+  const url = req.nextUrl.clone();
+  url.pathname = pathname;
+  url.search = '';
+  return NextResponse.redirect(url);
 }
 
-export function middleware(req: NextRequest) {
+export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
 
   // Guard /dashboard (and subpaths) only
-  if (pathname === '/dashboard' || pathname.startsWith('/dashboard/')) {
+  if (matches(pathname, '/dashboard')) {
+    // a deployment error, not a signed-out user: say so instead of bouncing to the login page
+    if (!accessTokenConfigured()) {
+      return new NextResponse(ACCESS_TOKEN_CONFIG_ERROR, { status: 500, headers: { 'content-type': 'text/plain' } });
+    }
+
     const token = req.cookies.get('accessToken')?.value;
+    if (!token) return redirectTo(req, '/');
 
-    if (!token) {
-      const url = req.nextUrl.clone();
-      url.pathname = '/';
-      return NextResponse.redirect(url);
-    }
+    // signature, expiry, issuer and audience
+    const verified = await verifyAccessToken(token);
+    if (!verified) return redirectTo(req, '/');
 
-    // Optional: check exp to avoid serving with an expired token
-    const payload = parseJwt(token);
-    const nowSec = Math.floor(Date.now() / 1000);
-    if (!payload?.exp || payload.exp <= nowSec) {
+    // the URL stays; the 403 page is served in its place
+    if (!canAccessRoute(pathname, verified.roles)) {
       const url = req.nextUrl.clone();
-      url.pathname = '/';
-      return NextResponse.redirect(url);
+      url.pathname = FORBIDDEN_PATH;
+      url.search = '';
+      return NextResponse.rewrite(url, { status: 403 });
     }
   }
 
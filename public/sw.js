@@ -0,0 +1,51 @@
+// public/sw.js ── alerts service worker (Web Push + notification clicks)
+
+const ALERTS_PATH = '/dashboard/alerts';
+
+const alertUrl = (id) =>
+  id != null ? `${ALERTS_PATH}?id=${encodeURIComponent(String(id))}` : ALERTS_PATH;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+// Payload: { id, title, body?, severity?, url? } (see push-stub.js)
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { title: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    // a focused dashboard already learns about it through the alerts hub
+    if (windows.some((c) => c.focused && c.visibilityState === 'visible')) return;
+
+    await self.registration.showNotification(data.title || 'New alert', {
+      body: data.body || '',
+      // same tag as the in-page notification, so the two never stack up
+      tag: data.id != null ? `alert-${data.id}` : undefined,
+      requireInteraction: data.severity === 'critical',
+      icon: '/favicon.ico',
+      data: { url: data.url || alertUrl(data.id) },
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || ALERTS_PATH;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const dashboard = windows.find((c) => new URL(c.url).pathname.startsWith('/dashboard'));
+    if (dashboard) {
+      await dashboard.focus();
+      // let the app route client-side instead of reloading the dashboard
+      dashboard.postMessage({ type: 'open-alert', url });
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
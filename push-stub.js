@@ -0,0 +1,97 @@
+// push-stub.js   ── local Web Push stub for the alerts service worker (CommonJS, Node 20+)
+//
+//   node push-stub.js keys          → prints a VAPID key pair
+//   npm run push:stub               → stub server on http://localhost:4100
+//
+// Run the app with
+//   NEXT_PUBLIC_VAPID_PUBLIC_KEY=<public key>
+//   NEXT_PUBLIC_PUSH_API_BASE_URL=http://localhost:4100
+// enable push on /dashboard/alerts/preferences, then fire one with
+//   curl -X POST localhost:4100/send -H 'content-type: application/json' \
+//        -d '{"id":42,"title":"Pitch 3 closed","severity":"critical"}'
+const http = require('http');
+const webpush = require('web-push');
+
+if (process.argv[2] === 'keys') {
+  const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+  console.log(`VAPID_PUBLIC_KEY=${publicKey}\nVAPID_PRIVATE_KEY=${privateKey}`);
+  process.exit(0);
+}
+
+const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+  console.error('Set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY (see `node push-stub.js keys`).');
+  process.exit(1);
+}
+webpush.setVapidDetails('mailto:dev@localhost', VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+
+const PORT = Number(process.env.PUSH_STUB_PORT || 4100);
+const ORIGIN = process.env.PUSH_STUB_ORIGIN || 'https://localhost:3000';
+
+/** endpoint → subscription */
+const subscriptions = new Map();
+
+const readJson = (req) =>
+  new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      try { resolve(raw ? JSON.parse(raw) : {}); } catch { resolve({}); }
+    });
+  });
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+http.createServer(async (req, res) => {
+  // the app calls us with credentials, so no wildcard origin
+  res.setHeader('Access-Control-Allow-Origin', ORIGIN);
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (pathname === '/alerts/push-subscriptions' && req.method === 'POST') {
+    const sub = await readJson(req);
+    if (!sub.endpoint) return send(res, 400, { error: 'endpoint required' });
+    subscriptions.set(sub.endpoint, sub);
+    console.log(`+ subscription (${subscriptions.size} total)`);
+    return send(res, 201, { ok: true });
+  }
+
+  if (pathname === '/alerts/push-subscriptions' && req.method === 'DELETE') {
+    const { endpoint } = await readJson(req);
+    subscriptions.delete(endpoint);
+    console.log(`- subscription (${subscriptions.size} total)`);
+    return send(res, 204);
+  }
+
+  if (pathname === '/send' && req.method === 'POST') {
+    const payload = { id: Date.now(), title: 'Test alert', severity: 'critical', ...(await readJson(req)) };
+    const results = await Promise.all(
+      Array.from(subscriptions.values()).map((sub) =>
+        webpush.sendNotification(sub, JSON.stringify(payload)).then(
+          () => 'sent',
+          (err) => {
+            // 404/410: the browser dropped the subscription
+            if (err.statusCode === 404 || err.statusCode === 410) subscriptions.delete(sub.endpoint);
+            return `failed (${err.statusCode || err.message})`;
+          }
+        )
+      )
+    );
+    return send(res, 200, { payload, results });
+  }
+
+  if (pathname === '/' && req.method === 'GET') {
+    return send(res, 200, { subscriptions: subscriptions.size });
+  }
+
+  send(res, 404, { error: 'not found' });
+}).listen(PORT, () => {
+  console.log(`📣  Push stub listening on http://localhost:${PORT} (origin ${ORIGIN})`);
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createLocalJWKSet, exportJWK, generateKeyPair, JWTPayload, SignJWT } from 'jose';
+import { KeySource, rolesFrom, verifyTokenWith } from '@/utils/accessToken';
+
+const ISSUER = 'https://api.example.test';
+const AUDIENCE = 'myb4y-dashboard';
+const KID = 'key-1';
+const expected = { issuer: ISSUER, audience: [AUDIENCE] };
+
+type SignKey = Parameters<SignJWT['sign']>[0];
+
+// a token as the backend issues it; `exp` null leaves it out
+function token(key: SignKey, alg: string, claims: JWTPayload = {}, exp: string | number | null = '5m') {
+  const jwt = new SignJWT({ roles: ['club'], ...claims })
+    .setProtectedHeader({ alg, kid: KID })
+    .setSubject('42')
+    .setIssuer(ISSUER)
+    .setAudience(AUDIENCE)
+    .setIssuedAt();
+  if (exp != null) jwt.setExpirationTime(exp);
+  return jwt.sign(key);
+}
+
+describe('verifyTokenWith (JWKS, RS256)', () => {
+  let privateKey: SignKey;
+  let otherKey: SignKey;
+  let source: KeySource;
+
+  beforeAll(async () => {
+    const pair = await generateKeyPair('RS256');
+    privateKey = pair.privateKey;
+    otherKey = (await generateKeyPair('RS256')).privateKey;
+    const jwk = { ...(await exportJWK(pair.publicKey)), kid: KID, alg: 'RS256' };
+    source = { kind: 'jwks', get: createLocalJWKSet({ keys: [jwk] }) };
+  });
+
+  it('accepts a valid token', async () => {
+    const verified = await verifyTokenWith(await token(privateKey, 'RS256'), source, expected);
+    expect(verified).toMatchObject({ userId: '42', roles: ['club'] });
+    expect(verified!.expiresAt).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('rejects a token signed with another key under the same kid', async () => {
+    expect(await verifyTokenWith(await token(otherKey, 'RS256'), source, expected)).toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    const expired = await token(privateKey, 'RS256', {}, Math.floor(Date.now() / 1000) - 60);
+    expect(await verifyTokenWith(expired, source, expected)).toBeNull();
+  });
+
+  it('rejects a token without exp', async () => {
+    expect(await verifyTokenWith(await token(privateKey, 'RS256', {}, null), source, expected)).toBeNull();
+  });
+
+  it('rejects the wrong issuer', async () => {
+    const t = await token(privateKey, 'RS256');
+    expect(await verifyTokenWith(t, source, { ...expected, issuer: 'https://elsewhere.test' })).toBeNull();
+  });
+
+  it('rejects the wrong audience', async () => {
+    const t = await token(privateKey, 'RS256');
+    expect(await verifyTokenWith(t, source, { ...expected, audience: ['someone-else'] })).toBeNull();
+  });
+});
+
+describe('verifyTokenWith (secret, HS256)', () => {
+  const secret = new TextEncoder().encode('a-shared-secret-of-at-least-32-bytes!!');
+  const source: KeySource = { kind: 'secret', key: secret };
+
+  it('accepts a valid token', async () => {
+    expect(await verifyTokenWith(await token(secret, 'HS256'), source, expected)).toMatchObject({ userId: '42' });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const forged = await token(new TextEncoder().encode('not-the-shared-secret-at-all-32-bytes!'), 'HS256');
+    expect(await verifyTokenWith(forged, source, expected)).toBeNull();
+  });
+
+  it('rejects an algorithm outside the allowlist', async () => {
+    const { privateKey } = await generateKeyPair('RS256');
+    expect(await verifyTokenWith(await token(privateKey, 'RS256'), source, expected)).toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    const expired = await token(secret, 'HS256', {}, Math.floor(Date.now() / 1000) - 60);
+    expect(await verifyTokenWith(expired, source, expected)).toBeNull();
+  });
+});
+
+describe('rolesFrom', () => {
+  it('wraps a single role', () => {
+    expect(rolesFrom({ roles: 'league' })).toEqual(['league']);
+  });
+
+  it('keeps the strings of an array', () => {
+    expect(rolesFrom({ roles: ['club', 7, 'referee'] })).toEqual(['club', 'referee']);
+  });
+
+  it('reads the .NET role claim', () => {
+    const payload = { 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role': ['System Administrator'] };
+    expect(rolesFrom(payload)).toEqual(['System Administrator']);
+  });
+
+  it('reads a configured claim', () => {
+    expect(rolesFrom({ groups: ['police'], roles: ['club'] }, 'groups')).toEqual(['police']);
+  });
+
+  it('is empty when there are none', () => {
+    expect(rolesFrom({})).toEqual([]);
+  });
+});
+
+describe('accessTokenConfigured', () => {
+  // the key source is built once per module instance
+  const fresh = async () => {
+    vi.resetModules();
+    return import('@/utils/accessToken');
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('is false, and says why, without a JWKS URL or secret', async () => {
+    vi.stubEnv('JWT_JWKS_URL', '');
+    vi.stubEnv('JWT_SECRET', '');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { accessTokenConfigured, verifyAccessToken, ACCESS_TOKEN_CONFIG_ERROR } = await fresh();
+    expect(accessTokenConfigured()).toBe(false);
+    expect(await verifyAccessToken('anything')).toBeNull();
+    expect(error).toHaveBeenCalledWith(ACCESS_TOKEN_CONFIG_ERROR);
+  });
+
+  it('is true with a secret', async () => {
+    vi.stubEnv('JWT_JWKS_URL', '');
+    vi.stubEnv('JWT_SECRET', 'a-shared-secret-of-at-least-32-bytes!!');
+    expect((await fresh()).accessTokenConfigured()).toBe(true);
+  });
+});
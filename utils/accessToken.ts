@@ -0,0 +1,103 @@
+// utils/accessToken.ts
+import { createRemoteJWKSet, jwtVerify, JWTPayload, JWTVerifyGetKey } from 'jose';
+
+/*
+ * Verifies the `accessToken` cookie on the server (middleware). Configured by env:
+ *
+ *   JWT_JWKS_URL     the backend's JWKS endpoint (RS/ES keys); preferred
+ *   JWT_SECRET       shared HMAC secret, used when there is no JWKS URL
+ *   JWT_ISSUER       expected `iss` (optional)
+ *   JWT_AUDIENCE     expected `aud`, comma-separated for several (optional)
+ *   JWT_ROLES_CLAIM  claim holding the roles (default: `roles`, then the .NET role claim)
+ *
+ * With neither key source set nothing can be verified; the middleware refuses to
+ * serve the dashboard (500) instead of treating everyone as signed out. See README.
+ */
+
+export const ACCESS_TOKEN_CONFIG_ERROR =
+  'Access tokens cannot be verified: set JWT_JWKS_URL (or JWT_SECRET) for the dashboard middleware';
+
+const DOTNET_ROLE_CLAIM = 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role';
+
+export type VerifiedToken = {
+  userId: string | null;
+  roles: string[];
+  /** seconds since epoch */
+  expiresAt: number;
+};
+
+export type KeySource = { kind: 'jwks'; get: JWTVerifyGetKey } | { kind: 'secret'; key: Uint8Array };
+
+// each key source only accepts its own family, so an HMAC token can never be
+// checked against a public key (or `none` slip through)
+const JWKS_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+const SECRET_ALGORITHMS = ['HS256', 'HS384', 'HS512'];
+
+let keySource: KeySource | null | undefined;
+
+// built once per server instance; the JWKS set caches keys and refetches when it
+// meets a `kid` it doesn't know, which is how rotated keys get picked up
+function keys(): KeySource | null {
+  if (keySource !== undefined) return keySource;
+  const jwksUrl = process.env.JWT_JWKS_URL;
+  const secret = process.env.JWT_SECRET;
+  if (jwksUrl) {
+    keySource = {
+      kind: 'jwks',
+      get: createRemoteJWKSet(new URL(jwksUrl), { cacheMaxAge: 10 * 60_000, cooldownDuration: 30_000 }),
+    };
+  } else if (secret) {
+    keySource = { kind: 'secret', key: new TextEncoder().encode(secret) };
+  } else {
+    console.error(ACCESS_TOKEN_CONFIG_ERROR);
+    keySource = null;
+  }
+  return keySource;
+}
+
+/** False when neither key source is set, so no token could ever pass */
+export const accessTokenConfigured = () => keys() !== null;
+
+const list = (v: string | undefined) => v?.split(',').map((s) => s.trim()).filter(Boolean) ?? [];
+
+/** Roles from the configured claim; a single role may come as a plain string */
+export function rolesFrom(payload: JWTPayload, claim = process.env.JWT_ROLES_CLAIM): string[] {
+  const raw = claim ? payload[claim] : payload.roles ?? payload.role ?? payload[DOTNET_ROLE_CLAIM];
+  if (typeof raw === 'string') return [raw];
+  return Array.isArray(raw) ? raw.filter((r): r is string => typeof r === 'string') : [];
+}
+
+export type TokenExpectations = { issuer?: string; audience?: string[] };
+
+/** verifyAccessToken against an explicit key source and claims */
+export async function verifyTokenWith(
+  token: string,
+  source: KeySource,
+  { issuer, audience }: TokenExpectations = {},
+): Promise<VerifiedToken | null> {
+  const options = {
+    issuer: issuer || undefined,
+    audience: audience?.length ? audience : undefined,
+  };
+
+  try {
+    const { payload } = source.kind === 'jwks'
+      ? await jwtVerify(token, source.get, { ...options, algorithms: JWKS_ALGORITHMS })
+      : await jwtVerify(token, source.key, { ...options, algorithms: SECRET_ALGORITHMS });
+    // jwtVerify only checks exp when the token has one; ours must
+    if (typeof payload.exp !== 'number') return null;
+    return { userId: payload.sub ?? null, roles: rolesFrom(payload), expiresAt: payload.exp };
+  } catch {
+    return null;
+  }
+}
+
+/** Checks signature, expiry, issuer and audience; null when any of them fails */
+export async function verifyAccessToken(token: string): Promise<VerifiedToken | null> {
+  const source = keys();
+  if (!source) return null;
+  return verifyTokenWith(token, source, {
+    issuer: process.env.JWT_ISSUER,
+    audience: list(process.env.JWT_AUDIENCE),
+  });
+}
@@ -0,0 +1,68 @@
+// utils/alertAttachments.ts
+import type { AlertAttachment } from '@/app/dashboard/types/alerts';
+
+export type AttachmentKind = 'image' | 'pdf' | 'file';
+
+const CLOUDINARY_HOST = 'res.cloudinary.com';
+const IMAGE_EXT = /\.(png|jpe?g|gif|webp|avif|svg)$/i;
+
+/** Only https Cloudinary delivery URLs are rendered; anything else is dropped */
+export function isCloudinaryUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    return u.protocol === 'https:' && u.hostname === CLOUDINARY_HOST;
+  } catch {
+    return false;
+  }
+}
+
+export function attachmentKind(a: AlertAttachment): AttachmentKind {
+  const mime = a.mimeType?.toLowerCase() ?? '';
+  const path = (() => { try { return new URL(a.url).pathname; } catch { return a.url; } })();
+  if (mime === 'application/pdf' || /\.pdf$/i.test(path)) return 'pdf';
+  if (mime.startsWith('image/') || IMAGE_EXT.test(path)) return 'image';
+  return 'file';
+}
+
+/**
+ * Cloudinary delivery URL with a transformation inserted after `/upload/`,
+ * e.g. a first-page JPEG thumbnail of a PDF. Returns null for raw uploads,
+ * which Cloudinary can't transform.
+ */
+export function cloudinaryTransform(url: string, transformation: string): string | null {
+  const m = url.match(/^(https:\/\/res\.cloudinary\.com\/[^/]+\/image\/upload\/)(.+)$/);
+  return m ? `${m[1]}${transformation}/${m[2]}` : null;
+}
+
+export const pdfThumbnail = (url: string) =>
+  cloudinaryTransform(url.replace(/\.pdf$/i, '.jpg'), 'pg_1,w_480,c_limit');
+
+export const attachmentName = (a: AlertAttachment) => {
+  if (a.name) return a.name;
+  try {
+    return decodeURIComponent(new URL(a.url).pathname.split('/').pop() || a.url);
+  } catch {
+    return a.url;
+  }
+};
+
+/** Keeps well-formed Cloudinary attachments from whatever the backend sent */
+export function sanitizeAttachments(raw: unknown): AlertAttachment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((a): a is AlertAttachment => !!a && typeof a === 'object' && typeof (a as AlertAttachment).url === 'string')
+    .filter((a) => isCloudinaryUrl(a.url))
+    .map((a) => ({
+      url: a.url,
+      name: typeof a.name === 'string' ? a.name : undefined,
+      mimeType: typeof a.mimeType === 'string' ? a.mimeType : undefined,
+      bytes: typeof a.bytes === 'number' ? a.bytes : undefined,
+    }));
+}
+
+export function formatBytes(bytes?: number): string | null {
+  if (bytes == null || !Number.isFinite(bytes)) return null;
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
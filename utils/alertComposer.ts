@@ -0,0 +1,98 @@
+// utils/alertComposer.ts
+import type { Severity } from '@/app/dashboard/types/alerts';
+import { APP_ROLES } from '@/config/roles';
+
+/** Roles allowed to send alerts from the dashboard (compared case-insensitively) */
+export const ALERT_COMPOSER_ROLES = ['System Administrator', 'league'];
+
+/** Roles offered as an audience */
+export const AUDIENCE_ROLES = APP_ROLES;
+
+export const canComposeAlerts = (roles: string[]) => {
+  const mine = roles.map((r) => r.toLowerCase());
+  return ALERT_COMPOSER_ROLES.some((r) => mine.includes(r.toLowerCase()));
+};
+
+export type AudienceKind = 'users' | 'roles' | 'entity';
+
+export type AudienceUser = { userId: number; name: string; email?: string };
+export type AudienceEntity = { id: number; name: string };
+
+export type AlertDraft = {
+  severity: Severity;
+  title: string;
+  body: string;
+  /** datetime-local value, '' = never */
+  expiresAt: string;
+  source: string;
+  sourceRef: string;
+  audience: AudienceKind;
+  users: AudienceUser[];
+  roles: string[];
+  entity: AudienceEntity | null;
+};
+
+export const EMPTY_DRAFT: AlertDraft = {
+  severity: 'info',
+  title: '',
+  body: '',
+  expiresAt: '',
+  source: '',
+  sourceRef: '',
+  audience: 'roles',
+  users: [],
+  roles: [],
+  entity: null,
+};
+
+export const TITLE_MAX = 200;
+
+/** Body of POST /alerts */
+export type CreateAlertRequest = {
+  severityCode: Severity;
+  title: string;
+  body: string | null;
+  expiresAt: string | null;
+  source: string | null;
+  sourceRef: string | null;
+  audience:
+    | { type: 'users'; userIds: number[] }
+    | { type: 'roles'; roles: string[] }
+    | { type: 'entity'; entityId: number };
+};
+
+export type DraftError = 'title' | 'titleLength' | 'audience' | 'expiresAt' | 'sourceRef';
+
+/** First problem that blocks sending, or null when the draft is complete */
+export function validateDraft(d: AlertDraft, now = new Date()): DraftError | null {
+  if (!d.title.trim()) return 'title';
+  if (d.title.trim().length > TITLE_MAX) return 'titleLength';
+  if (d.sourceRef.trim() && !d.source.trim()) return 'sourceRef';
+  if (d.expiresAt) {
+    const at = new Date(d.expiresAt);
+    if (Number.isNaN(at.getTime()) || at <= now) return 'expiresAt';
+  }
+  const hasAudience =
+    d.audience === 'users' ? d.users.length > 0 : d.audience === 'roles' ? d.roles.length > 0 : !!d.entity;
+  return hasAudience ? null : 'audience';
+}
+
+const orNull = (s: string) => (s.trim() ? s.trim() : null);
+
+export function toCreateRequest(d: AlertDraft): CreateAlertRequest {
+  return {
+    severityCode: d.severity,
+    title: d.title.trim(),
+    body: orNull(d.body),
+    // datetime-local is local time; the API wants UTC
+    expiresAt: d.expiresAt ? new Date(d.expiresAt).toISOString() : null,
+    source: orNull(d.source),
+    sourceRef: orNull(d.sourceRef),
+    audience:
+      d.audience === 'users'
+        ? { type: 'users', userIds: d.users.map((u) => u.userId) }
+        : d.audience === 'roles'
+        ? { type: 'roles', roles: d.roles }
+        : { type: 'entity', entityId: d.entity!.id },
+  };
+}
@@ -0,0 +1,49 @@
+// utils/alertGroups.ts
+import type { AlertItem } from '@/app/dashboard/types/alerts';
+import { alertKey, isUnread } from '@/context/AlertsContext';
+
+/** Alerts about the same thing (same source + sourceRef) */
+export type AlertThread = {
+  key: string;
+  source: string | null;
+  sourceRef: string | null;
+  /** newest first */
+  items: AlertItem[];
+  latest: AlertItem;
+  unread: number;
+};
+
+/** Thread key, or null for alerts that don't belong to one (no source/sourceRef) */
+export function threadKey(a: Pick<AlertItem, 'id' | 'source' | 'sourceRef'>): string | null {
+  return a.source && a.sourceRef ? `${a.source}\u001f${a.sourceRef}` : null;
+}
+
+const newestFirst = (a: AlertItem, b: AlertItem) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+export function makeThread(key: string, items: AlertItem[]): AlertThread {
+  const sorted = [...items].sort(newestFirst);
+  return {
+    key,
+    source: sorted[0].source ?? null,
+    sourceRef: sorted[0].sourceRef ?? null,
+    items: sorted,
+    latest: sorted[0],
+    unread: sorted.filter(isUnread).length,
+  };
+}
+
+/**
+ * Collapses alerts into threads, keeping the order in which each thread first
+ * appears (so the table's sort still applies). Lone alerts become one-item threads.
+ */
+export function groupAlerts(items: AlertItem[]): AlertThread[] {
+  const buckets = new Map<string, AlertItem[]>();
+  items.forEach((a) => {
+    const key = threadKey(a) ?? `alert:${alertKey(a.id)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(a);
+    else buckets.set(key, [a]);
+  });
+  return Array.from(buckets, ([key, bucket]) => makeThread(key, bucket));
+}
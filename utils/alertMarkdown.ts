@@ -0,0 +1,105 @@
+// utils/alertMarkdown.ts
+import { defaultSchema, type Options as SanitizeSchema } from 'rehype-sanitize';
+import type { Element, ElementContent, Root, RootContent } from 'hast';
+
+/** In-app routes that are linked automatically and opened through the Next router */
+export const INTERNAL_LINK_RE = /(^|[\s(])(\/dashboard(?:\/[\w\-.~%!$&'*+,;=:@]*)*(?:\?[\w\-.~%!$&'*+,;=:@/?]*)?(?:#[\w\-.~%/]*)?)/g;
+
+export const isInternalHref = (href?: string) => !!href && /^\/dashboard(?:[/?#]|$)/.test(href);
+
+/**
+ * The markdown subset alert bodies may use: inline formatting, lists, quotes,
+ * code, simple tables and links (http(s), mailto and in-app paths). No raw
+ * HTML, images, iframes or inline styles make it through.
+ */
+export const alertMarkdownSchema: SanitizeSchema = {
+  ...defaultSchema,
+  tagNames: [
+    'p', 'br', 'hr', 'strong', 'em', 'del', 'code', 'pre', 'blockquote',
+    'ul', 'ol', 'li', 'a', 'h3', 'h4', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  ],
+  attributes: {
+    a: ['href', 'title'],
+    code: [['className', /^language-[\w-]+$/]],
+    th: ['align'],
+    td: ['align'],
+  },
+  protocols: { href: ['http', 'https', 'mailto'] },
+  clobberPrefix: 'alert-',
+};
+
+const SKIP_INSIDE = new Set(['a', 'code', 'pre']);
+
+function linkify(text: string): ElementContent[] | null {
+  const out: ElementContent[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INTERNAL_LINK_RE)) {
+    const [, lead, rawPath] = m;
+    // trailing punctuation belongs to the sentence, not the link
+    const path = rawPath.replace(/[.,;:!?)]+$/, '');
+    const start = m.index! + lead.length;
+    if (start > last) out.push({ type: 'text', value: text.slice(last, start) });
+    out.push({
+      type: 'element',
+      tagName: 'a',
+      properties: { href: path },
+      children: [{ type: 'text', value: path }],
+    });
+    last = start + path.length;
+  }
+  if (out.length === 0) return null;
+  if (last < text.length) out.push({ type: 'text', value: text.slice(last) });
+  return out;
+}
+
+function walk(node: Root | Element) {
+  const next: RootContent[] = [];
+  node.children.forEach((child) => {
+    if (child.type === 'text') {
+      const parts = linkify(child.value);
+      if (parts) next.push(...parts);
+      else next.push(child);
+      return;
+    }
+    if (child.type === 'element' && !SKIP_INSIDE.has(child.tagName)) walk(child);
+    next.push(child);
+  });
+  node.children = next as typeof node.children;
+}
+
+/** rehype plugin: turns bare `/dashboard/...` paths in text into links */
+export function rehypeInternalLinks() {
+  return (tree: Root) => walk(tree);
+}
+
+const HEADING_MAP: Record<string, string> = { h1: 'h3', h2: 'h3', h5: 'h4', h6: 'h4' };
+
+function demote(node: Root | Element) {
+  node.children.forEach((child) => {
+    if (child.type !== 'element') return;
+    child.tagName = HEADING_MAP[child.tagName] ?? child.tagName;
+    demote(child);
+  });
+}
+
+/** rehype plugin: keeps headings below the card title (h1/h2 → h3, h5/h6 → h4) */
+export function rehypeDemoteHeadings() {
+  return (tree: Root) => demote(tree);
+}
+
+/** Plain-text rendering of a markdown body, for table cells, exports and notifications */
+export function markdownToText(md?: string | null): string {
+  if (!md) return '';
+  return md
+    .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*\n?/g, ''))
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
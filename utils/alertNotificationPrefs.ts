@@ -0,0 +1,126 @@
+// utils/alertNotificationPrefs.ts
+import type { AlertItem, Severity } from '@/app/dashboard/types/alerts';
+import { AlertCue, DEFAULT_ALERT_CUES, isAlertCue } from '@/utils/notificationSound';
+
+export type NotifyChannel = 'toast' | 'sound' | 'browser';
+export type ChannelSet = Record<NotifyChannel, boolean>;
+
+export type QuietHours = {
+  enabled: boolean;
+  start: string; // HH:mm, local
+  end: string;   // HH:mm, local; may be earlier than start (overnight)
+  /** critical alerts still ring through */
+  allowCritical: boolean;
+};
+
+export type AlertNotificationPrefs = {
+  severity: Record<Severity, ChannelSet>;
+  /** per-source overrides; sources without an entry follow the severity rules */
+  sources: Record<string, ChannelSet>;
+  quietHours: QuietHours;
+  /** which cue the sound channel plays, per severity */
+  sounds: Record<Severity, AlertCue>;
+};
+
+export const CHANNELS: NotifyChannel[] = ['toast', 'sound', 'browser'];
+export const SEVERITIES: Severity[] = ['info', 'warning', 'critical'];
+
+const ALL_ON: ChannelSet = { toast: true, sound: true, browser: true };
+const NONE: ChannelSet = { toast: false, sound: false, browser: false };
+
+export const DEFAULT_NOTIFICATION_PREFS: AlertNotificationPrefs = {
+  severity: {
+    info: { toast: true, sound: false, browser: false },
+    warning: { toast: true, sound: true, browser: false },
+    critical: { toast: true, sound: true, browser: true },
+  },
+  sources: {},
+  quietHours: { enabled: false, start: '22:00', end: '07:00', allowCritical: true },
+  sounds: DEFAULT_ALERT_CUES,
+};
+
+const isTime = (v: unknown): v is string => typeof v === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+
+function channelSet(raw: unknown, fallback: ChannelSet): ChannelSet {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<ChannelSet>;
+  return {
+    toast: typeof r.toast === 'boolean' ? r.toast : fallback.toast,
+    sound: typeof r.sound === 'boolean' ? r.sound : fallback.sound,
+    browser: typeof r.browser === 'boolean' ? r.browser : fallback.browser,
+  };
+}
+
+/** Fills gaps in a stored/remote payload with defaults */
+export function sanitizeNotificationPrefs(raw: unknown): AlertNotificationPrefs {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<AlertNotificationPrefs>;
+  const d = DEFAULT_NOTIFICATION_PREFS;
+  const q = (r.quietHours ?? {}) as Partial<QuietHours>;
+  const snd = (r.sounds ?? {}) as Partial<Record<Severity, unknown>>;
+
+  const sources: Record<string, ChannelSet> = {};
+  Object.entries(r.sources && typeof r.sources === 'object' ? r.sources : {}).forEach(([src, set]) => {
+    if (src) sources[src] = channelSet(set, ALL_ON);
+  });
+
+  return {
+    severity: {
+      info: channelSet(r.severity?.info, d.severity.info),
+      warning: channelSet(r.severity?.warning, d.severity.warning),
+      critical: channelSet(r.severity?.critical, d.severity.critical),
+    },
+    sources,
+    quietHours: {
+      enabled: typeof q.enabled === 'boolean' ? q.enabled : d.quietHours.enabled,
+      start: isTime(q.start) ? q.start : d.quietHours.start,
+      end: isTime(q.end) ? q.end : d.quietHours.end,
+      allowCritical: typeof q.allowCritical === 'boolean' ? q.allowCritical : d.quietHours.allowCritical,
+    },
+    sounds: {
+      info: isAlertCue(snd.info) ? snd.info : d.sounds.info,
+      warning: isAlertCue(snd.warning) ? snd.warning : d.sounds.warning,
+      critical: isAlertCue(snd.critical) ? snd.critical : d.sounds.critical,
+    },
+  };
+}
+
+const minutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export function inQuietHours(q: QuietHours, now = new Date()) {
+  if (!q.enabled) return false;
+  const cur = now.getHours() * 60 + now.getMinutes();
+  const start = minutes(q.start);
+  const end = minutes(q.end);
+  if (start === end) return false;
+  // overnight window, e.g. 22:00 → 07:00
+  return start < end ? cur >= start && cur < end : cur >= start || cur < end;
+}
+
+/**
+ * How an incoming alert should be announced. A channel fires only when both
+ * its severity and its source allow it; quiet hours leave the in-app toast
+ * but silence sound and browser notifications.
+ */
+export function resolveNotification(
+  prefs: AlertNotificationPrefs,
+  alert: Pick<AlertItem, 'severity' | 'source'>,
+  now = new Date()
+): ChannelSet {
+  const bySeverity = prefs.severity[alert.severity] ?? NONE;
+  const bySource = (alert.source && prefs.sources[alert.source]) || ALL_ON;
+
+  const out = {
+    toast: bySeverity.toast && bySource.toast,
+    sound: bySeverity.sound && bySource.sound,
+    browser: bySeverity.browser && bySource.browser,
+  };
+
+  const quiet = inQuietHours(prefs.quietHours, now) && !(prefs.quietHours.allowCritical && alert.severity === 'critical');
+  if (quiet) {
+    out.sound = false;
+    out.browser = false;
+  }
+  return out;
+}
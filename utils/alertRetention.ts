@@ -0,0 +1,56 @@
+// utils/alertRetention.ts
+import type { AlertItem } from '@/app/dashboard/types/alerts';
+
+/**
+ * Per-user cleanup rules. The backend applies them (a nightly job plus a check
+ * on every read); the dashboard only edits them and shows what is coming.
+ */
+export type AlertRetention = {
+  /** archive alerts this many days after they were read; null = never */
+  archiveReadAfterDays: number | null;
+  /** archive alerts once their expiresAt has passed */
+  archiveOnExpiry: boolean;
+  /** delete archived alerts this many days after they were archived; null = keep them */
+  purgeArchivedAfterDays: number | null;
+};
+
+export const RETENTION_MAX_DAYS = 365;
+
+export const DEFAULT_RETENTION: AlertRetention = {
+  archiveReadAfterDays: null,
+  archiveOnExpiry: false,
+  purgeArchivedAfterDays: null,
+};
+
+const days = (v: unknown): number | null =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= RETENTION_MAX_DAYS ? v : null;
+
+/** Fills gaps in a remote payload with defaults */
+export function sanitizeRetention(raw: unknown): AlertRetention {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<AlertRetention>;
+  return {
+    archiveReadAfterDays: days(r.archiveReadAfterDays),
+    archiveOnExpiry: typeof r.archiveOnExpiry === 'boolean' ? r.archiveOnExpiry : DEFAULT_RETENTION.archiveOnExpiry,
+    purgeArchivedAfterDays: days(r.purgeArchivedAfterDays),
+  };
+}
+
+const DAY_MS = 86_400_000;
+const plusDays = (iso: string, n: number) => new Date(iso).getTime() + n * DAY_MS;
+
+/** When the rules will archive this alert (ms epoch), or null if they won't */
+export function autoArchiveAt(a: AlertItem, r: AlertRetention): number | null {
+  if (a.archived) return null;
+  const due: number[] = [];
+  if (r.archiveReadAfterDays != null && a.readAt) due.push(plusDays(a.readAt, r.archiveReadAfterDays));
+  if (r.archiveOnExpiry && a.expiresAt) due.push(new Date(a.expiresAt).getTime());
+  const valid = due.filter(Number.isFinite);
+  return valid.length ? Math.min(...valid) : null;
+}
+
+/** When the rules will delete this archived alert (ms epoch), or null if they won't */
+export function purgeAt(a: AlertItem, r: AlertRetention): number | null {
+  if (!a.archived || !a.archivedAt || r.purgeArchivedAfterDays == null) return null;
+  const at = plusDays(a.archivedAt, r.purgeArchivedAfterDays);
+  return Number.isFinite(at) ? at : null;
+}
@@ -0,0 +1,99 @@
+// utils/alertsAnalytics.ts
+import type { AlertItem, Severity } from '@/app/dashboard/types/alerts';
+
+export type AnalyticsPreset = '7d' | '30d' | '90d' | 'custom';
+
+/** Inclusive local-day range, as YYYY-MM-DD (same format as the alerts filters) */
+export type AnalyticsRange = { preset: AnalyticsPreset; from: string; to: string };
+
+export const ANALYTICS_PRESETS: AnalyticsPreset[] = ['7d', '30d', '90d', 'custom'];
+
+const PRESET_DAYS: Record<Exclude<AnalyticsPreset, 'custom'>, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+export const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const fromDateInput = (v: string) => {
+  const [y, m, d] = v.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export function presetRange(preset: Exclude<AnalyticsPreset, 'custom'>, now = new Date()): AnalyticsRange {
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (PRESET_DAYS[preset] - 1));
+  return { preset, from: toDateInput(from), to: toDateInput(now) };
+}
+
+/** Bounds for GET /alerts (createdFrom / createdTo, UTC) */
+export function rangeBounds(r: AnalyticsRange) {
+  const start = fromDateInput(r.from);
+  const end = fromDateInput(r.to);
+  end.setHours(23, 59, 59, 999);
+  return { createdFrom: start.toISOString(), createdTo: end.toISOString() };
+}
+
+export type SeverityBucket = { key: string; label: string } & Record<Severity, number>;
+
+/**
+ * Alert counts per severity, one bucket per day — or per week (starting
+ * Monday) once the range is longer than two months, so the chart stays legible.
+ */
+export function severitySeries(items: AlertItem[], r: AnalyticsRange, locale?: string): SeverityBucket[] {
+  const start = fromDateInput(r.from);
+  const end = fromDateInput(r.to);
+  const days = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+  const weekly = days > 62;
+
+  const bucketStart = (d: Date) => {
+    const day = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    if (weekly) day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+    return day;
+  };
+
+  const buckets = new Map<string, SeverityBucket>();
+  for (let d = bucketStart(start); d <= end; d.setDate(d.getDate() + (weekly ? 7 : 1))) {
+    const key = toDateInput(d);
+    const label = d.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+    buckets.set(key, { key, label, info: 0, warning: 0, critical: 0 });
+  }
+
+  items.forEach((a) => {
+    const b = buckets.get(toDateInput(bucketStart(new Date(a.createdAt))));
+    if (b) b[a.severity] += 1;
+  });
+  return Array.from(buckets.values());
+}
+
+/** Mean createdAt → readAt over alerts that have been read, in ms (null when none) */
+export function meanTimeToRead(items: AlertItem[]): number | null {
+  let total = 0;
+  let n = 0;
+  items.forEach((a) => {
+    if (!a.readAt) return;
+    const ms = new Date(a.readAt).getTime() - new Date(a.createdAt).getTime();
+    if (!Number.isFinite(ms) || ms < 0) return;
+    total += ms;
+    n += 1;
+  });
+  return n ? total / n : null;
+}
+
+export function topSources(items: AlertItem[], limit = 5): { source: string; count: number }[] {
+  const counts = new Map<string, number>();
+  items.forEach((a) => {
+    if (a.source) counts.set(a.source, (counts.get(a.source) ?? 0) + 1);
+  });
+  return Array.from(counts, ([source, count]) => ({ source, count }))
+    .sort((a, b) => b.count - a.count || a.source.localeCompare(b.source))
+    .slice(0, limit);
+}
+
+/** Compact duration, e.g. "45s", "12m", "3h 20m", "2d 4h" */
+export function formatDuration(ms: number): string {
+  const sec = Math.round(ms / 1000);
+  if (sec < 60) return `${sec}s`;
+  const min = Math.round(sec / 60);
+  if (min < 60) return `${min}m`;
+  const hr = Math.floor(min / 60);
+  if (hr < 24) return min % 60 ? `${hr}h ${min % 60}m` : `${hr}h`;
+  const day = Math.floor(hr / 24);
+  return hr % 24 ? `${day}d ${hr % 24}h` : `${day}d`;
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AxiosInstance } from 'axios';
+import { AlertsPayloadError, createAlertsClient, parseAlert } from '@/utils/alertsApi';
+
+// every GET answers with `data`
+const clientFor = (data: unknown) =>
+  createAlertsClient({ get: vi.fn(async () => ({ data })) } as unknown as AxiosInstance);
+
+const base = { id: 1, title: 'Pitch closed' };
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('parseAlert', () => {
+  it('prefers createdAtUtc over createdAt', () => {
+    const a = parseAlert({ ...base, createdAtUtc: '2025-01-02T10:00:00Z', createdAt: '2025-01-01T10:00:00Z' });
+    expect(a?.createdAt).toBe('2025-01-02T10:00:00Z');
+  });
+
+  it('falls back to createdAt', () => {
+    expect(parseAlert({ ...base, createdAt: '2025-01-01T10:00:00Z' })?.createdAt).toBe('2025-01-01T10:00:00Z');
+  });
+
+  it.each([
+    [true, true], [false, false],
+    [1, true], [0, false],
+    ['1', true], ['true', true], [' TRUE ', true], ['0', false], ['false', false],
+  ])('reads isRead %j as %s', (isRead, read) => {
+    expect(parseAlert({ ...base, isRead })?.read).toBe(read);
+  });
+
+  it('treats a readAt as read', () => {
+    expect(parseAlert({ ...base, readAt: '2025-01-01T10:00:00Z' })?.read).toBe(true);
+  });
+
+  it('takes alertId when there is no id', () => {
+    expect(parseAlert({ alertId: 7, title: 'x' })?.id).toBe(7);
+    expect(parseAlert({ alertId: '8', title: 'x' })?.id).toBe(8);
+  });
+
+  it('keeps non-numeric ids as strings', () => {
+    expect(parseAlert({ id: 'a1b2', title: 'x' })?.id).toBe('a1b2');
+  });
+
+  it('prefers severityCode over severity', () => {
+    expect(parseAlert({ ...base, severityCode: 'CRITICAL', severity: 'info' })?.severity).toBe('critical');
+    expect(parseAlert({ ...base, severity: 'Warning' })?.severity).toBe('warning');
+  });
+
+  it('defaults an unknown severity to info', () => {
+    expect(parseAlert({ ...base, severityCode: 'urgent' })?.severity).toBe('info');
+  });
+
+  it('rejects items without an id or a title', () => {
+    expect(parseAlert({ title: 'x' })).toBeNull();
+    expect(parseAlert({ id: 1 })).toBeNull();
+    expect(parseAlert('not an alert')).toBeNull();
+  });
+});
+
+describe('createAlertsClient', () => {
+  it('reads unreadCount and items', async () => {
+    const summary = await clientFor({ unreadCount: 3, items: [base] }).summary(5);
+    expect(summary.unreadCount).toBe(3);
+    expect(summary.items.map((a) => a.id)).toEqual([1]);
+  });
+
+  it('reads the PascalCase summary', async () => {
+    const summary = await clientFor({ UnreadCount: 4, Items: [base, { ...base, id: 2 }] }).summary(5);
+    expect(summary.unreadCount).toBe(4);
+    expect(summary.items.map((a) => a.id)).toEqual([1, 2]);
+  });
+
+  it('drops a malformed item and keeps the rest', async () => {
+    const page = await clientFor({ items: [base, { id: 2 }, { ...base, id: 3 }], totalCount: 3 }).list({});
+    expect(page.items.map((a) => a.id)).toEqual([1, 3]);
+    expect(page.total).toBe(3);
+  });
+
+  it.each([['a string', 'oops'], ['an array', [base]], ['a number', 42]])(
+    'throws AlertsPayloadError when the payload is %s',
+    async (_, data) => {
+      await expect(clientFor(data).list({})).rejects.toBeInstanceOf(AlertsPayloadError);
+      await expect(clientFor(data).summary(5)).rejects.toBeInstanceOf(AlertsPayloadError);
+    },
+  );
+
+  it('throws AlertsPayloadError when a single alert is malformed', async () => {
+    await expect(clientFor({ title: 'no id' }).get(1)).rejects.toBeInstanceOf(AlertsPayloadError);
+  });
+});
@@ -0,0 +1,217 @@
+// utils/alertsApi.ts
+'use client';
+
+import { useMemo } from 'react';
+import type { AxiosInstance } from 'axios';
+import { z } from 'zod';
+import { useApi } from '@/utils/api';
+import { sanitizeAttachments } from '@/utils/alertAttachments';
+import type { AlertsQuery } from '@/utils/alertsFilters';
+import type { AlertItem, Severity } from '@/app/dashboard/types/alerts';
+
+/* ----------------- backend payloads ----------------- */
+
+// The backend has shipped a few shapes over time (createdAtUtc vs createdAt, isRead as
+// bool / 0-1 / string, PascalCase summaries). The schemas accept all of them; only
+// normalizeAlert below knows about the differences.
+
+const text = z.string().nullish();
+const flag = z.union([z.boolean(), z.number(), z.string()]).nullish();
+const id = z.union([z.number(), z.string().min(1)]);
+
+const backendAlertSchema = z
+  .object({
+    id: id.optional(),
+    /** GET /alerts/{id} calls it alertId */
+    alertId: id.optional(),
+    title: z.string(),
+    body: text,
+
+    createdAtUtc: text,
+    createdAt: text,
+    isRead: flag,
+    read: flag,
+    readAt: text,
+    archivedAt: text,
+    expiresAt: text,
+    snoozedUntil: text,
+    acknowledgedAt: text,
+    acknowledgedByName: text,
+    acknowledgementComment: text,
+
+    severityId: z.number().nullish(),
+    severityCode: text,
+    severity: text,
+    severityName: text,
+    severityRank: z.number().nullish(),
+    colorHex: text,
+
+    source: text,
+    sourceRef: text,
+
+    // filtered down to Cloudinary files by sanitizeAttachments
+    attachments: z.array(z.unknown()).nullish(),
+  })
+  .refine((a) => a.id != null || a.alertId != null, { message: 'alert without an id' });
+
+export type BackendAlertItem = z.infer<typeof backendAlertSchema>;
+
+/** Hub events other than AlertCreated may carry little more than the id */
+const alertRefSchema = z.object({ id, archivedAt: text });
+
+const alertListSchema = z.object({
+  items: z.array(z.unknown()).nullish(),
+  totalCount: z.number().nullish(),
+  nextCursor: z.string().nullish(),
+});
+
+const alertSummarySchema = z.object({
+  unreadCount: z.number().nullish(),
+  UnreadCount: z.number().nullish(),
+  items: z.array(z.unknown()).nullish(),
+  Items: z.array(z.unknown()).nullish(),
+  /** every critical alert still waiting for an acknowledgement, regardless of `max` */
+  unacknowledged: z.array(z.unknown()).nullish(),
+});
+
+/** The backend answered with something that isn't an alerts payload */
+export class AlertsPayloadError extends Error {
+  constructor(endpoint: string, public readonly issues: z.ZodIssue[]) {
+    super(`Unexpected payload from ${endpoint}`);
+    this.name = 'AlertsPayloadError';
+  }
+}
+
+/* ----------------- normalization ----------------- */
+
+const toSeverity = (raw?: string | null): Severity => {
+  const v = (raw ?? '').trim().toLowerCase();
+  return (v === 'info' || v === 'warning' || v === 'critical') ? (v as Severity) : 'info';
+};
+
+const toFlag = (v: z.infer<typeof flag>) =>
+  v === true || v === 1 || (typeof v === 'string' && ['1', 'true'].includes(v.trim().toLowerCase()));
+
+// a snooze that already ended is no snooze (the backend may not have cleared it yet)
+const activeSnooze = (v?: string | null) => (v && new Date(v).getTime() > Date.now() ? v : null);
+
+export function normalizeAlert(a: BackendAlertItem): AlertItem {
+  const rawId = (a.id ?? a.alertId)!;
+  const idNum = typeof rawId === 'number' ? rawId : Number(rawId);
+
+  return {
+    id: Number.isFinite(idNum) ? idNum : rawId,
+    title: a.title,
+    body: a.body ?? undefined,
+
+    createdAt: a.createdAtUtc ?? a.createdAt ?? new Date().toISOString(),
+    readAt: a.readAt ?? null,
+    archivedAt: a.archivedAt ?? null,
+    expiresAt: a.expiresAt ?? null,
+    snoozedUntil: activeSnooze(a.snoozedUntil),
+
+    read: toFlag(a.isRead) || toFlag(a.read) || !!a.readAt,
+    archived: !!a.archivedAt,
+
+    acknowledgedAt: a.acknowledgedAt ?? null,
+    acknowledgedBy: a.acknowledgedByName ?? null,
+    acknowledgementComment: a.acknowledgementComment ?? null,
+
+    severity: toSeverity(a.severityCode ?? a.severity),
+    severityId: a.severityId ?? undefined,
+    severityName: a.severityName ?? undefined,
+    severityRank: a.severityRank ?? undefined,
+    colorHex: a.colorHex ?? null,
+
+    source: a.source ?? undefined,
+    sourceRef: a.sourceRef ?? undefined,
+
+    attachments: a.attachments ? sanitizeAttachments(a.attachments) : undefined,
+  };
+}
+
+/** A single alert from any source (REST, hub push); null when it isn't one */
+export function parseAlert(raw: unknown): AlertItem | null {
+  const res = backendAlertSchema.safeParse(raw);
+  return res.success ? normalizeAlert(res.data) : null;
+}
+
+/** Just enough of a hub event to tell which alert it is about */
+export function parseAlertRef(raw: unknown): { id: string | number; archivedAt: string | null } | null {
+  const res = alertRefSchema.safeParse(raw);
+  return res.success ? { id: res.data.id, archivedAt: res.data.archivedAt ?? null } : null;
+}
+
+// one malformed alert shouldn't blank the whole list
+function parseAlerts(raw: unknown[] | null | undefined): AlertItem[] {
+  return (raw ?? []).map(parseAlert).filter((a): a is AlertItem => a !== null);
+}
+
+function parsePayload<T extends z.ZodTypeAny>(schema: T, raw: unknown, endpoint: string): z.infer<T> {
+  const res = schema.safeParse(raw ?? {});
+  if (!res.success) throw new AlertsPayloadError(endpoint, res.error.issues);
+  return res.data;
+}
+
+/* ----------------- client ----------------- */
+
+export type AlertsPage = {
+  items: AlertItem[];
+  total: number;
+  /** set when paging by cursor and more rows follow */
+  nextCursor: string | null;
+};
+
+export type AlertsSummary = {
+  unreadCount: number;
+  /** newest alerts, for the bell */
+  items: AlertItem[];
+  unacknowledged: AlertItem[];
+};
+
+// repeat array params (`source=a&source=b`) instead of axios' default `source[]=a`
+const paramsSerializer = { indexes: null };
+
+/** Typed reads of the alerts endpoints; every payload is validated and normalized */
+export function createAlertsClient(api: AxiosInstance) {
+  return {
+    async list(params: Partial<AlertsQuery>): Promise<AlertsPage> {
+      const res = await api.get('/alerts', { params, paramsSerializer });
+      const data = parsePayload(alertListSchema, res.data, '/alerts');
+      const items = parseAlerts(data.items);
+      return { items, total: data.totalCount ?? items.length, nextCursor: data.nextCursor ?? null };
+    },
+
+    async summary(max: number): Promise<AlertsSummary> {
+      const res = await api.get('/alerts/summary', { params: { max } });
+      const data = parsePayload(alertSummarySchema, res.data, '/alerts/summary');
+      return {
+        unreadCount: data.unreadCount ?? data.UnreadCount ?? 0,
+        items: parseAlerts(data.items ?? data.Items),
+        unacknowledged: parseAlerts(data.unacknowledged),
+      };
+    },
+
+    async get(alertId: string | number): Promise<AlertItem> {
+      const res = await api.get(`/alerts/${alertId}`);
+      const parsed = backendAlertSchema.safeParse(res.data);
+      if (!parsed.success) throw new AlertsPayloadError('/alerts/{id}', parsed.error.issues);
+      return normalizeAlert(parsed.data);
+    },
+
+    /** distinct sources, for filters and the composer */
+    async sources(): Promise<string[]> {
+      const res = await api.get('/alerts/sources');
+      const parsed = z.array(z.string().nullable()).safeParse(res.data);
+      if (!parsed.success) throw new AlertsPayloadError('/alerts/sources', parsed.error.issues);
+      return parsed.data.filter((s): s is string => !!s);
+    },
+  };
+}
+
+export type AlertsClient = ReturnType<typeof createAlertsClient>;
+
+export function useAlertsApi(): AlertsClient {
+  const api = useApi();
+  return useMemo(() => createAlertsClient(api), [api]);
+}
@@ -0,0 +1,207 @@
+// utils/alertsExport.ts
+import type { AlertItem, Severity } from '@/app/dashboard/types/alerts';
+import { markdownToText } from '@/utils/alertMarkdown';
+
+export type AlertsExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+type ExportColumn = {
+  labelKey: string;
+  value: (a: AlertItem, t: Translate) => string | Date | null;
+  width: number; // xlsx character width
+};
+
+const dateOrNull = (v?: string | null) => (v ? new Date(v) : null);
+
+const severityLabel = (a: AlertItem, t: Translate) =>
+  a.severityName ?? t(`severity.${a.severity}`, { defaultValue: a.severity });
+
+const statusLabel = (a: AlertItem, t: Translate) =>
+  a.archived
+    ? t('alertsPage.row.archived')
+    : a.snoozedUntil
+    ? t('alertsPage.row.snoozed')
+    : a.read
+    ? t('alertsPage.row.read')
+    : t('alertsPage.row.unread');
+
+const COLUMNS: ExportColumn[] = [
+  { labelKey: 'alertsPage.table.title', value: (a) => a.title, width: 40 },
+  { labelKey: 'alertsPage.table.body', value: (a) => markdownToText(a.body), width: 60 },
+  { labelKey: 'alertsPage.table.severity', value: severityLabel, width: 12 },
+  { labelKey: 'alertsPage.table.source', value: (a) => a.source ?? '', width: 18 },
+  { labelKey: 'alertsPage.table.sourceRef', value: (a) => a.sourceRef ?? '', width: 18 },
+  { labelKey: 'alertsPage.table.created', value: (a) => dateOrNull(a.createdAt), width: 20 },
+  { labelKey: 'alertsPage.table.readAt', value: (a) => dateOrNull(a.readAt), width: 20 },
+  { labelKey: 'alertsPage.table.archivedAt', value: (a) => dateOrNull(a.archivedAt), width: 20 },
+  { labelKey: 'alertsPage.table.expiresAt', value: (a) => dateOrNull(a.expiresAt), width: 20 },
+  { labelKey: 'alertsPage.table.status', value: statusLabel, width: 12 },
+];
+
+const SEVERITY_COLUMN = 2;
+
+// same palette as the table's fallback pills
+const FALLBACK_HEX: Record<Severity, string> = {
+  info: '#0369A1',
+  warning: '#B45309',
+  critical: '#B91C1C',
+};
+
+const pillHex = (a: AlertItem) =>
+  a.colorHex && /^#[0-9A-Fa-f]{6}$/.test(a.colorHex) ? a.colorHex : FALLBACK_HEX[a.severity];
+
+// Excel ignores fill alpha, so pre-mix the 10% tint over white (RRGGBB, no '#')
+function tintOverWhite(hex: string, amount = 0.1) {
+  return [1, 3, 5]
+    .map((i) => Math.round(255 - (255 - parseInt(hex.slice(i, i + 2), 16)) * amount))
+    .map((n) => n.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+const asText = (v: string | Date | null) => (v instanceof Date ? v.toLocaleString() : v ?? '');
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/* ---------------- CSV ---------------- */
+
+// a leading = + - @ (or tab/CR) makes spreadsheets run the cell as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(v: string | Date | null) {
+  const raw = v instanceof Date ? v.toISOString() : v ?? '';
+  const s = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function exportCsv(items: AlertItem[], t: Translate, filename: string) {
+  const lines = [
+    COLUMNS.map((c) => csvCell(t(c.labelKey))).join(','),
+    ...items.map((a) => COLUMNS.map((c) => csvCell(c.value(a, t))).join(',')),
+  ];
+  // BOM so Excel picks up UTF-8 accents
+  download(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+}
+
+/* ---------------- XLSX ---------------- */
+
+async function exportXlsx(items: AlertItem[], t: Translate, filename: string, title: string) {
+  // ~1MB, only loaded when someone actually exports
+  const { default: ExcelJS } = await import('exceljs');
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(title.slice(0, 31));
+  sheet.columns = COLUMNS.map((c) => ({ header: t(c.labelKey), width: c.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  items.forEach((a) => {
+    const row = sheet.addRow(COLUMNS.map((c) => c.value(a, t)));
+    row.eachCell((cell) => {
+      if (cell.value instanceof Date) cell.numFmt = 'yyyy-mm-dd hh:mm';
+    });
+    const hex = pillHex(a);
+    const sev = row.getCell(SEVERITY_COLUMN + 1);
+    sev.font = { bold: true, color: { argb: `FF${hex.slice(1).toUpperCase()}` } };
+    sev.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${tintOverWhite(hex)}` } };
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  download(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${filename}.xlsx`
+  );
+}
+
+/* ---------------- PDF (print dialog) ---------------- */
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+/**
+ * Opens the window the PDF report is written into. Call it straight from the
+ * click handler — popup blockers reject windows opened after an await.
+ */
+export function openReportWindow(loadingText: string): Window | null {
+  const win = window.open('', '_blank');
+  if (win) win.document.write(`<p style="font-family:system-ui,sans-serif">${escapeHtml(loadingText)}</p>`);
+  return win;
+}
+
+function exportPdf(items: AlertItem[], t: Translate, title: string, win: Window | null): boolean {
+  if (!win || win.closed) return false;
+  win.document.open();
+
+  const head = COLUMNS.map((c) => `<th>${escapeHtml(t(c.labelKey))}</th>`).join('');
+  const body = items
+    .map((a) => {
+      const cells = COLUMNS.map((c, i) => {
+        const text = escapeHtml(asText(c.value(a, t)));
+        if (i !== SEVERITY_COLUMN) return `<td>${text}</td>`;
+        const hex = pillHex(a);
+        return `<td><span class="pill" style="color:${hex};border-color:${hex};background:${hex}1A">${text}</span></td>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    })
+    .join('');
+
+  win.document.write(`<!doctype html>
+<html lang="${escapeHtml(document.documentElement.lang || 'en')}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 10px; color: #111827; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  p.meta { margin: 0 0 12px; color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; font-weight: 600; }
+  tr { page-break-inside: avoid; }
+  .pill { display: inline-block; border: 1px solid; border-radius: 9999px; padding: 1px 8px; font-weight: 500;
+          white-space: nowrap; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(t('alertsPage.export.generated', { date: new Date().toLocaleString(), count: items.length }))}</p>
+<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  // let the browser lay out the document before opening the dialog
+  setTimeout(() => win.print(), 250);
+  return true;
+}
+
+/**
+ * Export alerts in the given format. CSV/XLSX download a file; PDF opens a
+ * print-ready report (browser "Save as PDF") in `reportWindow`, see
+ * `openReportWindow`. Returns false when that window was blocked or closed.
+ */
+export async function exportAlerts(
+  format: AlertsExportFormat,
+  items: AlertItem[],
+  t: Translate,
+  reportWindow: Window | null = null
+): Promise<boolean> {
+  const title = t('alertsPage.title');
+  const filename = `alerts-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'csv') exportCsv(items, t, filename);
+  else if (format === 'xlsx') await exportXlsx(items, t, filename, title);
+  else return exportPdf(items, t, title, reportWindow);
+  return true;
+}
@@ -0,0 +1,102 @@
+// utils/alertsFakeHub.ts
+//
+// In-browser stand-in for the /hubs/alerts SignalR hub, so real-time alerts can be
+// exercised without the .NET backend. Enable with NEXT_PUBLIC_ALERTS_HUB=fake.
+//
+// It pushes a random alert every NEXT_PUBLIC_ALERTS_FAKE_INTERVAL_MS (default 45s; 0 = never)
+// and exposes `window.__alertsHub` in the browser console:
+//   __alertsHub.emit('AlertCreated', { id: 999, title: 'Hello', severityCode: 'critical' })
+//   __alertsHub.drop()     // simulate a lost connection (clients fall back to polling)
+//   __alertsHub.restore()  // let the next reconnect attempt succeed again
+import type { AlertsConnection, AlertsHubEvent } from './alertsSocket';
+
+type Handler = (...args: unknown[]) => void;
+
+type FakeHubControls = {
+  emit: (event: AlertsHubEvent, payload: unknown) => void;
+  drop: () => void;
+  restore: () => void;
+};
+
+declare global {
+  interface Window {
+    __alertsHub?: FakeHubControls;
+  }
+}
+
+const SEVERITIES = ['info', 'warning', 'critical'] as const;
+const intervalMs = Number(process.env.NEXT_PUBLIC_ALERTS_FAKE_INTERVAL_MS ?? 45_000);
+
+let fakeSeq = 0;
+function randomAlert() {
+  const severityCode = SEVERITIES[Math.floor(Math.random() * SEVERITIES.length)];
+  fakeSeq++;
+  return {
+    id: Date.now(),
+    title: `Test alert #${fakeSeq}`,
+    body: 'Pushed by the local fake alerts hub.',
+    createdAtUtc: new Date().toISOString(),
+    severityCode,
+    isRead: false,
+    source: 'fake-hub',
+    sourceRef: `seq-${fakeSeq}`,
+  };
+}
+
+export function createFakeAlertsConnection(): AlertsConnection {
+  const handlers = new Map<string, Set<Handler>>();
+  const closeCbs: Array<(error?: Error) => void> = [];
+
+  let running = false;
+  let offline = false;
+  let timer: number | null = null;
+
+  const dispatch = (event: string, payload: unknown) => {
+    if (!running) return;
+    handlers.get(event)?.forEach((h) => h(payload));
+  };
+
+  const controls: FakeHubControls = {
+    emit: (event, payload) => dispatch(event, payload),
+    drop: () => {
+      offline = true;
+      if (!running) return;
+      running = false;
+      if (timer !== null) { window.clearInterval(timer); timer = null; }
+      closeCbs.forEach((cb) => cb(new Error('Fake hub connection dropped')));
+    },
+    restore: () => { offline = false; },
+  };
+
+  const connection: AlertsConnection = {
+    start: async () => {
+      await new Promise((r) => setTimeout(r, 150));
+      if (offline) throw new Error('Fake hub unreachable');
+      running = true;
+      if (typeof window !== 'undefined') window.__alertsHub = controls;
+      if (intervalMs > 0 && timer === null) {
+        timer = window.setInterval(() => dispatch('AlertCreated', randomAlert()), intervalMs);
+      }
+    },
+    stop: async () => {
+      if (timer !== null) { window.clearInterval(timer); timer = null; }
+      const wasRunning = running;
+      running = false;
+      if (wasRunning) closeCbs.forEach((cb) => cb());
+    },
+    on: (methodName: string, newMethod: Handler) => {
+      if (!handlers.has(methodName)) handlers.set(methodName, new Set());
+      handlers.get(methodName)!.add(newMethod);
+    },
+    off: (methodName: string, method?: Handler) => {
+      if (!method) handlers.delete(methodName);
+      else handlers.get(methodName)?.delete(method);
+    },
+    onclose: (cb) => { closeCbs.push(cb); },
+    // the fake never auto-reconnects: a drop goes straight to onclose
+    onreconnecting: () => {},
+    onreconnected: () => {},
+  };
+
+  return connection;
+}
@@ -0,0 +1,160 @@
+// utils/alertsFilters.ts
+import type { AlertItem, Severity } from '@/app/dashboard/types/alerts';
+import type { AlertsSortKey, SortDir } from '@/utils/alertsTablePrefs';
+
+export type AlertsViewFilter = 'all' | 'unread' | 'read' | 'archived' | 'snoozed' | 'unacknowledged';
+
+/** Everything the alerts table can be filtered by — mirrored 1:1 in the URL */
+export type AlertsFilters = {
+  view: AlertsViewFilter;
+  severity: 'all' | Severity;
+  q: string;
+  sources: string[];
+  sourceRef: string;
+  from: string;      // YYYY-MM-DD (local), inclusive
+  to: string;        // YYYY-MM-DD (local), inclusive
+  expiring: boolean;
+};
+
+/** Query params understood by GET /alerts */
+export type AlertsQuery = {
+  page: number;
+  pageSize: number;
+  /** opaque position from a previous response's `nextCursor`; takes precedence over `page` */
+  cursor?: string;
+  status?: 'active' | 'archived' | 'all';
+  onlyUnread?: boolean;
+  onlyRead?: boolean;
+  onlySnoozed?: boolean;
+  /** critical alerts without an acknowledgement */
+  onlyUnacknowledged?: boolean;
+  severity?: Severity;
+  search?: string;
+  source?: string[];
+  sourceRef?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  expiresAfter?: string;
+  expiresBefore?: string;
+  sortBy?: AlertsSortKey;
+  sortDir?: SortDir;
+};
+
+/** "Expiring soon" = still valid but expiring within this window */
+export const EXPIRING_SOON_HOURS = 48;
+
+/** Critical alerts stay in the header banner until someone acknowledges them */
+export const needsAck = (a: AlertItem) => a.severity === 'critical' && !a.acknowledgedAt;
+
+const VIEWS: AlertsViewFilter[] = ['all', 'unread', 'read', 'archived', 'snoozed', 'unacknowledged'];
+const SEVERITIES: Severity[] = ['info', 'warning', 'critical'];
+
+// URL keys (short, so shared links stay readable)
+export const FILTER_PARAM_KEYS = ['view', 'severity', 'q', 'source', 'ref', 'from', 'to', 'expiring'] as const;
+
+type ParamsLike = { get(key: string): string | null; getAll(key: string): string[] };
+
+const isDateInput = (v: string | null): v is string => !!v && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+export function parseAlertsFilters(sp: ParamsLike): AlertsFilters {
+  const view = sp.get('view') as AlertsViewFilter | null;
+  const severity = sp.get('severity') as Severity | null;
+  const from = sp.get('from');
+  const to = sp.get('to');
+
+  return {
+    view: view && VIEWS.includes(view) ? view : 'all',
+    severity: severity && SEVERITIES.includes(severity) ? severity : 'all',
+    q: (sp.get('q') ?? '').trim(),
+    sources: sp.getAll('source').filter(Boolean),
+    sourceRef: (sp.get('ref') ?? '').trim(),
+    from: isDateInput(from) ? from : '',
+    to: isDateInput(to) ? to : '',
+    expiring: sp.get('expiring') === '1',
+  };
+}
+
+/** URL params for a filters patch; null/empty values remove the key */
+export function filtersToParams(patch: Partial<AlertsFilters>): Record<string, string | string[] | null> {
+  const out: Record<string, string | string[] | null> = {};
+  if ('view' in patch) out.view = patch.view && patch.view !== 'all' ? patch.view : null;
+  if ('severity' in patch) out.severity = patch.severity && patch.severity !== 'all' ? patch.severity : null;
+  if ('q' in patch) out.q = patch.q?.trim() || null;
+  if ('sources' in patch) out.source = patch.sources?.length ? patch.sources : null;
+  if ('sourceRef' in patch) out.ref = patch.sourceRef?.trim() || null;
+  if ('from' in patch) out.from = patch.from || null;
+  if ('to' in patch) out.to = patch.to || null;
+  if ('expiring' in patch) out.expiring = patch.expiring ? '1' : null;
+  return out;
+}
+
+export function hasActiveFilters(f: AlertsFilters) {
+  return !!(f.q || f.sources.length || f.sourceRef || f.from || f.to || f.expiring);
+}
+
+function dayStart(v: string) {
+  const [y, m, d] = v.split('-').map(Number);
+  return new Date(y, m - 1, d, 0, 0, 0, 0);
+}
+function dayEnd(v: string) {
+  const [y, m, d] = v.split('-').map(Number);
+  return new Date(y, m - 1, d, 23, 59, 59, 999);
+}
+
+export function buildAlertsQuery(f: AlertsFilters, page: number, pageSize: number, now = Date.now()): AlertsQuery {
+  const params: AlertsQuery = { page, pageSize };
+
+  if (f.view === 'archived') {
+    params.status = 'archived';
+  } else if (f.view === 'snoozed') {
+    params.status = 'active';
+    params.onlySnoozed = true;
+  } else {
+    params.status = 'all';
+    if (f.view === 'unread') params.onlyUnread = true;
+    if (f.view === 'read') params.onlyRead = true;
+    if (f.view === 'unacknowledged') params.onlyUnacknowledged = true;
+  }
+
+  if (f.severity !== 'all') params.severity = f.severity;
+  if (f.q) params.search = f.q;
+  if (f.sources.length) params.source = f.sources;
+  if (f.sourceRef) params.sourceRef = f.sourceRef;
+  if (f.from) params.createdFrom = dayStart(f.from).toISOString();
+  if (f.to) params.createdTo = dayEnd(f.to).toISOString();
+  if (f.expiring) {
+    params.expiresAfter = new Date(now).toISOString();
+    params.expiresBefore = new Date(now + EXPIRING_SOON_HOURS * 3_600_000).toISOString();
+  }
+  return params;
+}
+
+/** Client-side twin of the backend filtering, used for alerts pushed in live */
+export function matchesAlertsFilters(a: AlertItem, f: AlertsFilters, now = Date.now()): boolean {
+  if (f.severity !== 'all' && a.severity !== f.severity) return false;
+
+  // snoozed alerts only count as unread once they resurface
+  if (f.view === 'unread' && (a.read || a.snoozedUntil)) return false;
+  if (f.view === 'read' && !a.read) return false;
+  if (f.view === 'archived' && !a.archived) return false;
+  if (f.view === 'snoozed' && (!a.snoozedUntil || a.archived)) return false;
+  if (f.view === 'unacknowledged' && !needsAck(a)) return false;
+
+  if (f.q) {
+    const needle = f.q.toLowerCase();
+    const haystack = [a.title, a.body, a.source, a.sourceRef].filter(Boolean).join(' ').toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  if (f.sources.length && !f.sources.includes(a.source ?? '')) return false;
+  if (f.sourceRef && (a.sourceRef ?? '') !== f.sourceRef) return false;
+
+  const created = new Date(a.createdAt).getTime();
+  if (f.from && created < dayStart(f.from).getTime()) return false;
+  if (f.to && created > dayEnd(f.to).getTime()) return false;
+
+  if (f.expiring) {
+    const exp = a.expiresAt ? new Date(a.expiresAt).getTime() : NaN;
+    if (!Number.isFinite(exp) || exp < now || exp > now + EXPIRING_SOON_HOURS * 3_600_000) return false;
+  }
+  return true;
+}
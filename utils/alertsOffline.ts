@@ -0,0 +1,166 @@
+// utils/alertsOffline.ts
+import { isAxiosError } from 'axios';
+import type { AxiosInstance } from 'axios';
+import type { AlertItem } from '@/app/dashboard/types/alerts';
+import type { AlertMutation } from '@/context/AlertsContext';
+
+/*
+ * IndexedDB-backed pieces that keep the alerts UI usable without a connection:
+ * an outbox of alert actions waiting to be sent, and copies of recently
+ * fetched table pages for read-only viewing.
+ */
+
+const DB_NAME = 'myb4y-alerts';
+const DB_VERSION = 1;
+const OUTBOX = 'outbox';
+const PAGES = 'pages';
+
+/** Cached table pages kept per user (oldest dropped first) */
+const MAX_CACHED_PAGES = 30;
+
+/** The request never got an answer (offline, DNS, CORS, timeout) — worth retrying as is */
+export const isOfflineError = (err: unknown) => isAxiosError(err) && !err.response;
+
+/** 1s, 2s, 4s … capped at a minute */
+export const outboxRetryDelay = (attempts: number) => Math.min(60_000, 1000 * 2 ** Math.max(0, attempts - 1));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB unavailable'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true }).createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(PAGES)) {
+          db.createObjectStore(PAGES, { keyPath: 'key' }).createIndex('userId', 'userId');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // let a later call try again (e.g. private mode refused it once)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function run<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+/* ----------------- outbox ----------------- */
+
+/** What was done, with enough detail to replay the request and the optimistic patch */
+export type OutboxOp =
+  | { kind: 'mutation'; action: AlertMutation; at: string }
+  | { kind: 'snooze'; until: string }
+  | { kind: 'ack'; at: string; by: string | null; comment: string | null };
+
+export type OutboxEntry = {
+  id: number;
+  userId: number;
+  op: OutboxOp;
+  ids: Array<string | number>;
+  createdAt: string;
+  attempts: number;
+};
+
+const ENDPOINTS: Record<AlertMutation, string> = {
+  markRead: '/alerts/mark-read',
+  markUnread: '/alerts/mark-unread',
+  archive: '/alerts/archive',
+  unarchive: '/alerts/unarchive',
+  unsnooze: '/alerts/unsnooze',
+};
+
+/** The POST that carries an action out, whether it's sent right away or replayed from the outbox */
+export function opRequest(op: OutboxOp, ids: Array<string | number>): [string, Record<string, unknown>] {
+  switch (op.kind) {
+    case 'mutation': return [ENDPOINTS[op.action], { ids }];
+    case 'snooze':   return ['/alerts/snooze', { ids, until: op.until }];
+    case 'ack':      return ['/alerts/acknowledge', { ids, comment: op.comment }];
+  }
+}
+
+/** Entries for a user, oldest first (the order they must be sent in) */
+export async function outboxEntries(userId: number): Promise<OutboxEntry[]> {
+  const all = await run<OutboxEntry[]>(OUTBOX, 'readonly', (s) => s.index('userId').getAll(userId));
+  return all.sort((a, b) => a.id - b.id);
+}
+
+export async function enqueueOutbox(entry: Omit<OutboxEntry, 'id'>): Promise<OutboxEntry> {
+  const id = await run<IDBValidKey>(OUTBOX, 'readwrite', (s) => s.add(entry));
+  return { ...entry, id: Number(id) };
+}
+
+export const updateOutboxEntry = (entry: OutboxEntry) =>
+  run<IDBValidKey>(OUTBOX, 'readwrite', (s) => s.put(entry)).then(() => undefined);
+
+export const removeOutboxEntry = (id: number) =>
+  run<undefined>(OUTBOX, 'readwrite', (s) => s.delete(id));
+
+/* ----------------- page cache ----------------- */
+
+export type CachedAlertsPage = {
+  items: AlertItem[];
+  total: number;
+  /** when it was fetched (ms epoch) */
+  savedAt: number;
+};
+
+type PageRecord = CachedAlertsPage & { key: string; userId: number };
+
+const pageKey = (userId: number, key: string) => `${userId}|${key}`;
+
+export async function cacheAlertsPage(userId: number, key: string, page: Omit<CachedAlertsPage, 'savedAt'>) {
+  const record: PageRecord = { ...page, savedAt: Date.now(), key: pageKey(userId, key), userId };
+  await run<IDBValidKey>(PAGES, 'readwrite', (s) => s.put(record));
+
+  const all = await run<PageRecord[]>(PAGES, 'readonly', (s) => s.index('userId').getAll(userId));
+  const stale = all.sort((a, b) => b.savedAt - a.savedAt).slice(MAX_CACHED_PAGES);
+  await Promise.all(stale.map((p) => run<undefined>(PAGES, 'readwrite', (s) => s.delete(p.key))));
+}
+
+export async function cachedAlertsPage(userId: number, key: string): Promise<CachedAlertsPage | null> {
+  const record = await run<PageRecord | undefined>(PAGES, 'readonly', (s) => s.get(pageKey(userId, key)));
+  return record ? { items: record.items, total: record.total, savedAt: record.savedAt } : null;
+}
+
+/* ----------------- sign-out ----------------- */
+
+/**
+ * Last go at the user's queued actions before sign-out clears them: sends what
+ * still can be, in order, and returns how many never made it
+ */
+export async function sendOutboxBeforeSignOut(api: AxiosInstance, userId: number): Promise<number> {
+  const entries = await outboxEntries(userId).catch(() => [] as OutboxEntry[]);
+  let unsent = 0;
+  for (const entry of entries) {
+    try {
+      const [endpoint, body] = opRequest(entry.op, entry.ids);
+      await api.post(endpoint, body);
+    } catch {
+      unsent += 1;
+    }
+  }
+  return unsent;
+}
+
+/** Forgets every cached page and queued action on this device; the next person to sign in starts clean */
+export async function clearAlertsOfflineData() {
+  await Promise.all([OUTBOX, PAGES].map((store) => run<undefined>(store, 'readwrite', (s) => s.clear())));
+}
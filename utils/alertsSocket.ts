@@ -1,25 +1,191 @@
-// import * as signalR from '@microsoft/signalr';
-
-// // NEXT_PUBLIC_API_BASE_URL: https://localhost:7028/api
-// const apiBase = process.env.NEXT_PUBLIC_API_BASE_URL || '';
-// const hubBase = apiBase.replace(/\/api\/?$/i, '') + '/hubs/alerts';
-
-// export function createAlertsConnection() {
-//   const conn = new signalR.HubConnectionBuilder()
-//     .withUrl(hubBase, {
-//       withCredentials: true, // cookie auth
-//       transport:
-//         signalR.HttpTransportType.WebSockets |
-//         signalR.HttpTransportType.ServerSentEvents |
-//         signalR.HttpTransportType.LongPolling,
-//     })
-//     .withAutomaticReconnect({
-//       nextRetryDelayInMilliseconds: (ctx) => {
-//         if (ctx.previousRetryCount < 5) return 1000 * (ctx.previousRetryCount + 1);
-//         return 10000;
-//       },
-//     })
-//     .build();
-
-//   return conn;
-// }
+// utils/alertsSocket.ts
+import * as signalR from '@microsoft/signalr';
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/context/authContext';
+import { createFakeAlertsConnection } from './alertsFakeHub';
+
+// NEXT_PUBLIC_API_BASE_URL: https://localhost:7028/api
+const apiBase = process.env.NEXT_PUBLIC_API_BASE_URL || '';
+const hubBase = apiBase.replace(/\/api\/?$/i, '') + '/hubs/alerts';
+
+// 'fake' swaps the .NET hub for an in-browser stand-in (see alertsFakeHub.ts)
+const hubMode = (process.env.NEXT_PUBLIC_ALERTS_HUB || 'signalr').toLowerCase();
+
+export type AlertsHubEvent = 'AlertCreated' | 'AlertUpdated' | 'AlertArchived';
+export const ALERTS_HUB_EVENTS: AlertsHubEvent[] = ['AlertCreated', 'AlertUpdated', 'AlertArchived'];
+
+export type AlertsHubStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/** The part of HubConnection we rely on — also implemented by the fake hub */
+export type AlertsConnection = Pick<
+  signalR.HubConnection,
+  'start' | 'stop' | 'on' | 'off' | 'onclose' | 'onreconnecting' | 'onreconnected'
+>;
+
+type EventListener = (event: AlertsHubEvent, payload: unknown) => void;
+type StatusListener = (status: AlertsHubStatus) => void;
+
+/** 1s, 2s, … 5s, then every 10s (same policy for reconnects and failed starts) */
+function retryDelay(previousRetryCount: number) {
+  if (previousRetryCount < 5) return 1000 * (previousRetryCount + 1);
+  return 10000;
+}
+
+export function createAlertsConnection(): AlertsConnection {
+  if (hubMode === 'fake') return createFakeAlertsConnection();
+
+  return new signalR.HubConnectionBuilder()
+    .withUrl(hubBase, {
+      withCredentials: true, // cookie auth
+      transport:
+        signalR.HttpTransportType.WebSockets |
+        signalR.HttpTransportType.ServerSentEvents |
+        signalR.HttpTransportType.LongPolling,
+    })
+    .withAutomaticReconnect({
+      nextRetryDelayInMilliseconds: (ctx) => retryDelay(ctx.previousRetryCount),
+    })
+    .configureLogging(signalR.LogLevel.Warning)
+    .build();
+}
+
+/* ------------------------------------------------------------------ */
+/* Shared connection manager: one hub connection for the whole app,   */
+/* started by the first consumer and stopped when the last one leaves */
+/* ------------------------------------------------------------------ */
+
+let conn: AlertsConnection | null = null;
+let status: AlertsHubStatus = 'idle';
+let consumers = 0;
+let retryTimer: number | null = null;
+let retryCount = 0;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+function setStatus(next: AlertsHubStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((l) => l(next));
+}
+
+function ensureConnection(): AlertsConnection {
+  if (conn) return conn;
+
+  const c = createAlertsConnection();
+  ALERTS_HUB_EVENTS.forEach((evt) => {
+    c.on(evt, (payload: unknown) => eventListeners.forEach((l) => l(evt, payload)));
+  });
+  c.onreconnecting(() => setStatus('reconnecting'));
+  c.onreconnected(() => {
+    retryCount = 0;
+    setStatus('connected');
+  });
+  // Automatic reconnect gave up (or the server closed us) — fall back to our own retry loop
+  c.onclose(() => {
+    if (consumers > 0) scheduleRetry();
+    else setStatus('idle');
+  });
+
+  conn = c;
+  return c;
+}
+
+function scheduleRetry() {
+  if (consumers === 0) {
+    setStatus('idle');
+    return;
+  }
+  setStatus('disconnected');
+  if (retryTimer !== null) return;
+
+  const delay = retryDelay(retryCount++);
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    if (consumers > 0) connect();
+  }, delay);
+}
+
+async function connect() {
+  const c = ensureConnection();
+  setStatus('connecting');
+  try {
+    await c.start();
+    if (consumers === 0) {
+      // released while we were starting
+      await c.stop().catch(() => {});
+      return;
+    }
+    retryCount = 0;
+    setStatus('connected');
+  } catch {
+    scheduleRetry();
+  }
+}
+
+async function disconnect() {
+  if (retryTimer !== null) {
+    window.clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  retryCount = 0;
+  try { await conn?.stop(); } catch {}
+  setStatus('idle');
+}
+
+/** Registers a consumer; the connection starts with the first one. Returns the release fn. */
+export function acquireAlertsHub(): () => void {
+  consumers++;
+  if (consumers === 1) connect();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    consumers = Math.max(0, consumers - 1);
+    if (consumers === 0) disconnect();
+  };
+}
+
+export function subscribeAlertsHub(listener: EventListener): () => void {
+  eventListeners.add(listener);
+  return () => { eventListeners.delete(listener); };
+}
+
+export function subscribeAlertsHubStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+}
+
+export function getAlertsHubStatus(): AlertsHubStatus {
+  return status;
+}
+
+/**
+ * Keeps the shared hub alive while mounted (and only while logged in),
+ * forwards pushed events to `onEvent` and returns the live connection status.
+ */
+export function useAlertsHub(onEvent?: EventListener): AlertsHubStatus {
+  const { user } = useAuth();
+  const enabled = !!user;
+  const [current, setCurrent] = useState<AlertsHubStatus>(getAlertsHubStatus);
+
+  // keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(onEvent);
+  useEffect(() => { handlerRef.current = onEvent; }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setCurrent(getAlertsHubStatus());
+    const offStatus = subscribeAlertsHubStatus(setCurrent);
+    const offEvents = subscribeAlertsHub((evt, payload) => handlerRef.current?.(evt, payload));
+    const release = acquireAlertsHub();
+    return () => {
+      offEvents();
+      offStatus();
+      release();
+    };
+  }, [enabled]);
+
+  return enabled ? current : 'idle';
+}
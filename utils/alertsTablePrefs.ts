@@ -0,0 +1,95 @@
+// utils/alertsTablePrefs.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/authContext';
+
+export type AlertsSortKey = 'createdAt' | 'severityRank' | 'readAt' | 'archivedAt' | 'title';
+export type SortDir = 'asc' | 'desc';
+
+export type AlertsColumn = 'title' | 'body' | 'severity' | 'created' | 'readAt' | 'archivedAt' | 'status';
+
+export type AlertsTablePrefs = {
+  sortBy: AlertsSortKey;
+  sortDir: SortDir;
+  pageSize: number;
+  columns: AlertsColumn[];
+  /** collapse alerts sharing source + sourceRef into threads */
+  grouped: boolean;
+  /** load more rows on scroll (cursor-based, virtualized) instead of numbered pages */
+  infinite: boolean;
+};
+
+export const PAGE_SIZES = [10, 20, 50];
+
+/** Every column in display order; the title column can't be hidden */
+export const ALL_COLUMNS: AlertsColumn[] = ['title', 'body', 'severity', 'created', 'readAt', 'archivedAt', 'status'];
+
+export const DEFAULT_TABLE_PREFS: AlertsTablePrefs = {
+  sortBy: 'createdAt',
+  sortDir: 'desc',
+  pageSize: 10,
+  columns: ['title', 'body', 'severity', 'created', 'status'],
+  grouped: false,
+  infinite: false,
+};
+
+const SORT_KEYS: AlertsSortKey[] = ['createdAt', 'severityRank', 'readAt', 'archivedAt', 'title'];
+
+const storageKey = (userId: number) => `myb4y:alertsTable:${userId}`;
+
+// stored prefs may come from an older build — keep only what we still understand
+function sanitize(raw: unknown): AlertsTablePrefs {
+  const p = (raw && typeof raw === 'object' ? raw : {}) as Partial<AlertsTablePrefs>;
+  const columns = Array.isArray(p.columns)
+    ? ALL_COLUMNS.filter((c) => c === 'title' || p.columns!.includes(c))
+    : DEFAULT_TABLE_PREFS.columns;
+
+  return {
+    sortBy: SORT_KEYS.includes(p.sortBy as AlertsSortKey) ? (p.sortBy as AlertsSortKey) : DEFAULT_TABLE_PREFS.sortBy,
+    sortDir: p.sortDir === 'asc' || p.sortDir === 'desc' ? p.sortDir : DEFAULT_TABLE_PREFS.sortDir,
+    pageSize: PAGE_SIZES.includes(Number(p.pageSize)) ? Number(p.pageSize) : DEFAULT_TABLE_PREFS.pageSize,
+    columns,
+    grouped: typeof p.grouped === 'boolean' ? p.grouped : DEFAULT_TABLE_PREFS.grouped,
+    infinite: typeof p.infinite === 'boolean' ? p.infinite : DEFAULT_TABLE_PREFS.infinite,
+  };
+}
+
+/** Default direction when a column is first sorted: newest / most severe first, titles A→Z */
+export const defaultSortDir = (key: AlertsSortKey): SortDir => (key === 'title' ? 'asc' : 'desc');
+
+/**
+ * Alerts table preferences, persisted per signed-in user in localStorage.
+ * `ready` flips once the stored prefs have been read, so the table can wait
+ * for them instead of fetching twice.
+ */
+export function useAlertsTablePrefs() {
+  const { user } = useAuth();
+  const userId = user?.userId;
+
+  const [prefs, setPrefs] = useState<AlertsTablePrefs>(DEFAULT_TABLE_PREFS);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    if (userId == null) return;
+    let stored: unknown = null;
+    try {
+      const raw = localStorage.getItem(storageKey(userId));
+      stored = raw ? JSON.parse(raw) : null;
+    } catch {}
+    setPrefs(stored ? sanitize(stored) : DEFAULT_TABLE_PREFS);
+    setReady(true);
+  }, [userId]);
+
+  const update = useCallback((patch: Partial<AlertsTablePrefs>) => {
+    setPrefs((prev) => {
+      const next = sanitize({ ...prev, ...patch });
+      if (userId != null) {
+        try { localStorage.setItem(storageKey(userId), JSON.stringify(next)); } catch {}
+      }
+      return next;
+    });
+  }, [userId]);
+
+  return { prefs, ready, update };
+}
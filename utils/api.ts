@@ -1,5 +1,5 @@
 // utils/api.ts
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig, isAxiosError } from 'axios';
 import { useEffect }           from 'react';
 import { useLoading }          from '@/context/LoadingContext';
 
@@ -8,6 +8,93 @@ const baseApi: AxiosInstance = axios.create({
   withCredentials: true,  // send & receive HttpOnly cookie
 });
 
+/* ----------------- session refresh ----------------- */
+
+/** What POST /auth/refresh answers with (new cookies ride along) */
+export type SessionRefresh = {
+  user: {
+    userId: number;
+    email: string;
+    name: string;
+    profilePictureUrl?: string | null;
+    roles: string[];
+  };
+  expires: string;
+};
+
+const REFRESH_URL = '/auth/refresh';
+
+// a 401 from these means wrong credentials or no session, not a stale access token
+const NO_RETRY = [REFRESH_URL, '/auth/login', '/auth/logout', '/auth/mfa/', '/auth/forgotpassword', '/auth/resetpassword'];
+
+/** The backend turned the refresh down: the session is over, not just unreachable */
+export const isRefreshRefused = (err: unknown) =>
+  isAxiosError(err) && (err.response?.status === 401 || err.response?.status === 403);
+
+const refreshedListeners = new Set<(session: SessionRefresh) => void>();
+const expiredListeners = new Set<() => void>();
+
+let refreshing: Promise<SessionRefresh> | null = null;
+
+/**
+ * Renews the access token. Single-flight: every caller (and every request that
+ * hit a 401) waits on the same POST /auth/refresh.
+ */
+export function refreshSession(): Promise<SessionRefresh> {
+  if (!refreshing) {
+    refreshing = baseApi
+      .post<SessionRefresh>(REFRESH_URL)
+      .then((res) => {
+        refreshedListeners.forEach((l) => l(res.data));
+        return res.data;
+      })
+      .catch((err) => {
+        if (isRefreshRefused(err)) expiredListeners.forEach((l) => l());
+        throw err;
+      })
+      .finally(() => { refreshing = null; });
+  }
+  return refreshing;
+}
+
+export function onSessionRefreshed(listener: (session: SessionRefresh) => void) {
+  refreshedListeners.add(listener);
+  return () => { refreshedListeners.delete(listener); };
+}
+
+/** Fires when a refresh is refused (not when it merely fails to get through) */
+export function onSessionExpired(listener: () => void) {
+  expiredListeners.add(listener);
+  return () => { expiredListeners.delete(listener); };
+}
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// An expired access token: refresh once, then replay the request. Requests that
+// fail while a refresh is under way queue on the same promise.
+baseApi.interceptors.response.use(undefined, async (error) => {
+  const config = (isAxiosError(error) ? error.config : undefined) as RetriableConfig | undefined;
+  const url = config?.url ?? '';
+  if (
+    !config ||
+    config._retried ||
+    !isAxiosError(error) ||
+    error.response?.status !== 401 ||
+    NO_RETRY.some((p) => url.startsWith(p))
+  ) {
+    return Promise.reject(error);
+  }
+
+  config._retried = true;
+  try {
+    await refreshSession();
+  } catch {
+    // surface the original 401; onSessionExpired handles a refused refresh
+    return Promise.reject(error);
+  }
+  return baseApi(config);
+});
+
 export function useApi(): AxiosInstance {
   const { setLoading } = useLoading();
 
@@ -0,0 +1,155 @@
+// utils/browserNotifications.ts
+'use client';
+
+import type { AxiosInstance } from 'axios';
+import type { AlertItem } from '@/app/dashboard/types/alerts';
+import { markdownToText } from '@/utils/alertMarkdown';
+
+export const browserNotificationsSupported = () =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+export function notificationPermission(): NotificationPermission | 'unsupported' {
+  return browserNotificationsSupported() ? Notification.permission : 'unsupported';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!browserNotificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+}
+
+export const alertDeepLink = (id: string | number) => `/dashboard/alerts?id=${encodeURIComponent(String(id))}`;
+
+/* ---------------- service worker ---------------- */
+
+const SW_URL = '/sw.js';
+
+export const serviceWorkerSupported = () =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+/** Registers (or returns the existing) alerts service worker */
+export async function registerAlertsServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!serviceWorkerSupported()) return null;
+  try {
+    await navigator.serviceWorker.register(SW_URL, { scope: '/' });
+    return await navigator.serviceWorker.ready;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * OS-level notification for an alert; clicking it opens the alert. Goes
+ * through the service worker when there is one (required on mobile), with
+ * `onOpen` handling clicks on the page-owned fallback. Silently does nothing
+ * without permission.
+ */
+export async function showAlertNotification(alert: AlertItem, onOpen: (href: string) => void) {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') return;
+
+  const href = alertDeepLink(alert.id);
+  const options: NotificationOptions = {
+    body: markdownToText(alert.body) || undefined,
+    // same tag as pushes for this alert: the OS replaces instead of stacking
+    tag: `alert-${alert.id}`,
+    requireInteraction: alert.severity === 'critical',
+    icon: '/favicon.ico',
+    data: { url: href },
+  };
+
+  try {
+    const reg = serviceWorkerSupported() ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (reg) {
+      await reg.showNotification(alert.title, options);
+      return;
+    }
+    const n = new Notification(alert.title, options);
+    n.onclick = () => {
+      window.focus();
+      onOpen(href);
+      n.close();
+    };
+  } catch {
+    // notification blocked by the OS / browser policy
+  }
+}
+
+/** Routes clicks the service worker forwards (`open-alert`) through the app router */
+export function onServiceWorkerOpenAlert(onOpen: (href: string) => void): () => void {
+  if (!serviceWorkerSupported()) return () => {};
+  const handler = (e: MessageEvent) => {
+    if (e.data?.type === 'open-alert' && typeof e.data.url === 'string') onOpen(e.data.url);
+  };
+  navigator.serviceWorker.addEventListener('message', handler);
+  return () => navigator.serviceWorker.removeEventListener('message', handler);
+}
+
+/* ---------------- Web Push ---------------- */
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? '';
+// point at `node push-stub.js` locally; defaults to the regular API
+const PUSH_API_BASE = process.env.NEXT_PUBLIC_PUSH_API_BASE_URL ?? '';
+const SUBSCRIPTIONS_URL = `${PUSH_API_BASE}/alerts/push-subscriptions`;
+
+export const webPushSupported = () =>
+  serviceWorkerSupported() && typeof window !== 'undefined' && 'PushManager' in window && !!VAPID_PUBLIC_KEY;
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const out = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) out[i] = raw.charCodeAt(i);
+  return out;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!webPushSupported()) return null;
+  const reg = await navigator.serviceWorker.getRegistration();
+  return reg ? reg.pushManager.getSubscription() : null;
+}
+
+/** Subscribes this browser to Web Push and registers it with the backend */
+export async function subscribeToPush(api: AxiosInstance): Promise<boolean> {
+  if (!webPushSupported()) return false;
+  if ((await requestNotificationPermission()) !== 'granted') return false;
+
+  const reg = await registerAlertsServiceWorker();
+  if (!reg) return false;
+
+  let sub: PushSubscription;
+  try {
+    sub =
+      (await reg.pushManager.getSubscription()) ??
+      (await reg.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+      }));
+  } catch {
+    // push service unreachable or the VAPID key was rejected
+    return false;
+  }
+
+  try {
+    await api.post(SUBSCRIPTIONS_URL, sub.toJSON());
+    return true;
+  } catch {
+    // backend didn't take it: don't leave a dangling browser subscription
+    await sub.unsubscribe().catch(() => {});
+    return false;
+  }
+}
+
+export async function unsubscribeFromPush(api: AxiosInstance): Promise<boolean> {
+  const sub = await getPushSubscription();
+  if (!sub) return true;
+  try {
+    await api.delete(SUBSCRIPTIONS_URL, { data: { endpoint: sub.endpoint } });
+  } catch {
+    // still drop it locally; the backend prunes dead endpoints on send
+  }
+  return sub.unsubscribe();
+}
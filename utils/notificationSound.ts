@@ -0,0 +1,152 @@
+// utils/notificationSound.ts
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Severity } from '@/app/dashboard/types/alerts';
+
+/*
+ * Web Audio cues for the dashboard: alert sounds per severity and the plain
+ * beeps the session-expiry countdown uses. Muting silences the alert sounds
+ * only; the countdown has its own switch. Nothing plays before the browser
+ * lets the page make sound.
+ */
+
+// one context for the whole app; browsers cap how many can be open
+let ctx: AudioContext | null = null;
+
+function audioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  if (!ctx) ctx = new window.AudioContext();
+  // created before any user gesture it starts suspended; resume is a no-op otherwise
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  return ctx;
+}
+
+// Autoplay rules: audio only starts once the user has interacted with the page.
+// Tones scheduled before that would all fire at once on the first click, so until
+// then cues are dropped instead.
+function playableContext(): AudioContext | null {
+  const activation = typeof navigator !== 'undefined' ? navigator.userActivation : undefined;
+  if (activation && !activation.hasBeenActive) return null;
+  const ac = audioContext();
+  // without the userActivation API, a running context is the only tell
+  return ac && (activation || ac.state === 'running') ? ac : null;
+}
+
+function tone(ac: AudioContext, freq: number, startAt: number, ms: number, vol: number) {
+  const osc = ac.createOscillator();
+  const gain = ac.createGain();
+  osc.frequency.value = freq;
+  gain.gain.value = 0;
+  osc.connect(gain);
+  gain.connect(ac.destination);
+
+  // attack/decay envelope
+  gain.gain.linearRampToValueAtTime(vol, startAt + 0.01);
+  gain.gain.exponentialRampToValueAtTime(0.0001, startAt + ms / 1000);
+  osc.start(startAt);
+  osc.stop(startAt + ms / 1000 + 0.02);
+}
+
+/* ----------------- mute ----------------- */
+
+const MUTE_KEY = 'myb4y:soundMuted';
+const muteListeners = new Set<() => void>();
+
+export function isSoundMuted() {
+  try { return localStorage.getItem(MUTE_KEY) === '1'; } catch { return false; }
+}
+
+/** Silences alert sounds in this browser (all tabs) */
+export function setSoundMuted(muted: boolean) {
+  try { localStorage.setItem(MUTE_KEY, muted ? '1' : '0'); } catch {}
+  muteListeners.forEach((l) => l());
+}
+
+function subscribeMuted(listener: () => void) {
+  muteListeners.add(listener);
+  // other tabs
+  const onStorage = (e: StorageEvent) => { if (e.key === MUTE_KEY) listener(); };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    muteListeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function useSoundMuted(): [boolean, (muted: boolean) => void] {
+  const muted = useSyncExternalStore(subscribeMuted, isSoundMuted, () => false);
+  return [muted, setSoundMuted];
+}
+
+/* ----------------- alert cues ----------------- */
+
+export type AlertCue = 'none' | 'tick' | 'chime' | 'bell' | 'alarm';
+
+export const ALERT_CUES: AlertCue[] = ['none', 'tick', 'chime', 'bell', 'alarm'];
+
+/** [freq Hz, start offset s, length ms, volume] */
+const CUE_NOTES: Record<Exclude<AlertCue, 'none'>, Array<[number, number, number, number]>> = {
+  tick: [[1320, 0, 90, 0.04]],
+  chime: [[880, 0, 140, 0.05], [1175, 0.16, 180, 0.05]],
+  bell: [[1046, 0, 260, 0.06], [1318, 0.12, 260, 0.05], [1568, 0.24, 360, 0.05]],
+  alarm: [
+    [988, 0, 110, 0.07], [1319, 0.14, 110, 0.07],
+    [988, 0.28, 110, 0.07], [1319, 0.42, 110, 0.07],
+    [988, 0.56, 110, 0.07], [1319, 0.7, 160, 0.07],
+  ],
+};
+
+export const DEFAULT_ALERT_CUES: Record<Severity, AlertCue> = {
+  info: 'tick',
+  warning: 'chime',
+  critical: 'alarm',
+};
+
+export const isAlertCue = (v: unknown): v is AlertCue => ALERT_CUES.includes(v as AlertCue);
+
+function playNotes(cue: AlertCue) {
+  if (cue === 'none') return;
+  try {
+    const ac = playableContext();
+    if (!ac) return;
+    const now = ac.currentTime;
+    CUE_NOTES[cue].forEach(([freq, at, ms, vol]) => tone(ac, freq, now + at, ms, vol));
+  } catch {
+    // audio can still fail (device gone, context closed); not worth surfacing
+  }
+}
+
+let lastCueAt = 0;
+
+/**
+ * Plays the cue for an incoming alert. Skipped while muted, and in a
+ * background tab unless `evenIfHidden` (the OS notification speaks for it
+ * there). A burst of arrivals rings once.
+ */
+export function playAlertCue(cue: AlertCue, { evenIfHidden = false } = {}) {
+  if (isSoundMuted()) return;
+  if (typeof document !== 'undefined' && document.hidden && !evenIfHidden) return;
+  const now = Date.now();
+  if (now - lastCueAt < 1500) return;
+  lastCueAt = now;
+  playNotes(cue);
+}
+
+/** For the preferences page: plays regardless of mute, it's what the user asked for */
+export const previewAlertCue = (cue: AlertCue) => playNotes(cue);
+
+/* ----------------- plain beeps ----------------- */
+
+/** A single tone; the session-expiry countdown builds its warnings from these. Not affected by the alert mute */
+export function useBeep(enabled: boolean | undefined) {
+  return useCallback((freq = 880, ms = 120, vol = 0.05) => {
+    if (!enabled) return;
+    try {
+      const ac = playableContext();
+      if (ac) tone(ac, freq, ac.currentTime, ms, vol);
+    } catch {
+      // likely autoplay blocked; ignore silently
+    }
+  }, [enabled]);
+}
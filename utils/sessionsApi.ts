@@ -0,0 +1,96 @@
+// utils/sessionsApi.ts
+'use client';
+
+import { useMemo } from 'react';
+import type { AxiosInstance } from 'axios';
+import { z } from 'zod';
+import { useApi } from '@/utils/api';
+
+/** Source of the alert the backend raises when the account signs in from a new device; sourceRef is the session id */
+export const NEW_DEVICE_ALERT_SOURCE = 'auth.new-device';
+
+const text = z.string().nullish();
+
+const sessionSchema = z.object({
+  id: z.union([z.number(), z.string().min(1)]),
+  userAgent: text,
+  browser: text,
+  os: text,
+  ip: text,
+  city: text,
+  country: text,
+  createdAt: text,
+  lastActiveAt: text,
+  current: z.boolean().nullish(),
+});
+
+export type UserSession = {
+  id: string;
+  browser: string | null;
+  os: string | null;
+  ip: string | null;
+  /** "City, Country" as far as the backend could tell from the IP */
+  location: string | null;
+  signedInAt: string | null;
+  lastActiveAt: string | null;
+  /** the session this browser is using */
+  current: boolean;
+};
+
+// Good enough for a label; the backend's own parse wins when it sends one
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'], [/OPR\//, 'Opera'], [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'], [/Safari\//, 'Safari'],
+];
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'], [/Android/, 'Android'], [/iPhone|iPad/, 'iOS'],
+  [/Mac OS X/, 'macOS'], [/Linux/, 'Linux'],
+];
+const firstMatch = (ua: string, list: Array<[RegExp, string]>) => list.find(([re]) => re.test(ua))?.[1] ?? null;
+
+function normalizeSession(s: z.infer<typeof sessionSchema>): UserSession {
+  const ua = s.userAgent ?? '';
+  return {
+    id: String(s.id),
+    browser: s.browser || firstMatch(ua, BROWSERS),
+    os: s.os || firstMatch(ua, SYSTEMS),
+    ip: s.ip ?? null,
+    location: [s.city, s.country].filter(Boolean).join(', ') || null,
+    signedInAt: s.createdAt ?? null,
+    lastActiveAt: s.lastActiveAt ?? null,
+    current: !!s.current,
+  };
+}
+
+/** The account's sign-ins across devices */
+export function createSessionsClient(api: AxiosInstance) {
+  return {
+    /** current session first, then most recently active */
+    async list(): Promise<UserSession[]> {
+      const res = await api.get('/auth/sessions');
+      const parsed = z.array(z.unknown()).safeParse(res.data);
+      const items = (parsed.success ? parsed.data : [])
+        .map((raw) => sessionSchema.safeParse(raw))
+        .flatMap((r) => (r.success ? [normalizeSession(r.data)] : []));
+      const lastActive = (s: UserSession) => new Date(s.lastActiveAt ?? s.signedInAt ?? 0).getTime() || 0;
+      return items.sort((a, b) => Number(b.current) - Number(a.current) || lastActive(b) - lastActive(a));
+    },
+
+    /** signs that device out */
+    async revoke(id: string): Promise<void> {
+      await api.delete(`/auth/sessions/${encodeURIComponent(id)}`);
+    },
+
+    /** signs out every device except this one */
+    async revokeOthers(): Promise<void> {
+      await api.post('/auth/sessions/revoke-others');
+    },
+  };
+}
+
+export type SessionsClient = ReturnType<typeof createSessionsClient>;
+
+export function useSessionsApi(): SessionsClient {
+  const api = useApi();
+  return useMemo(() => createSessionsClient(api), [api]);
+}
@@ -0,0 +1,43 @@
+// utils/useKeyboardShortcuts.ts
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export type ShortcutHandler = (e: KeyboardEvent) => void;
+
+/** Keys are matched against `KeyboardEvent.key` (so `?` rather than `Shift+/`) */
+export type ShortcutMap = Record<string, ShortcutHandler>;
+
+const isEditable = (el: EventTarget | null) =>
+  el instanceof HTMLElement &&
+  (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+
+// Enter/Space already mean something on these
+const isActivatable = (el: EventTarget | null) =>
+  el instanceof HTMLElement && !!el.closest('button, a[href], [role="menuitem"], [role="option"]');
+
+/**
+ * Single-key shortcuts on the document. Ignored while typing in a field,
+ * with Ctrl/Alt/Meta held, or when something else already handled the key,
+ * so they don't fight with inputs, browser shortcuts or open dialogs.
+ */
+export function useKeyboardShortcuts(shortcuts: ShortcutMap, enabled = true) {
+  // latest handlers without re-binding the listener on every render
+  const ref = useRef(shortcuts);
+  ref.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || e.isComposing) return;
+      if (isEditable(e.target)) return;
+      if ((e.key === 'Enter' || e.key === ' ') && isActivatable(e.target)) return;
+      const handler = ref.current[e.key];
+      if (!handler) return;
+      e.preventDefault();
+      handler(e);
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,34 @@
+// utils/usePermission.ts
+'use client';
+
+import { useAuth, UserAccess } from '@/context/authContext';
+
+export type PermissionCode = UserAccess['permissionCode'];
+
+const slug = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Where the dashboard serves a module's component: /dashboard/<module>/<component>,
+ * slugged. The side menu links grants here, and pages find their grants by it, so
+ * no page spells out the names /auth/permissions uses.
+ */
+export const accessHref = (moduleName: string, componentName: string) =>
+  `/dashboard/${slug(moduleName)}/${slug(componentName)}`;
+
+/** Whether the grants include any of `codes` on the component served at `href` */
+export function hasPermission(
+  access: UserAccess[],
+  href: string,
+  codes: PermissionCode | PermissionCode[]
+): boolean {
+  const wanted = Array.isArray(codes) ? codes : [codes];
+  return access.some(
+    (a) => accessHref(a.moduleName, a.componentName) === href && wanted.includes(a.permissionCode)
+  );
+}
+
+/** False while the session's grants are still loading */
+export function usePermission(href: string, codes: PermissionCode | PermissionCode[]): boolean {
+  const { access, permissionsLoaded } = useAuth();
+  return permissionsLoaded && hasPermission(access, href, codes);
+}